@@ -0,0 +1,32 @@
+import worker, { type Env } from '../src/index';
+
+interface PagesFunctionContext {
+  request: Request;
+  env: Env;
+  waitUntil(promise: Promise<unknown>): void;
+  passThroughOnException(): void;
+  log?: (...args: unknown[]) => void;
+}
+
+/**
+ * Pages deployments run the worker's router for every path so both targets
+ * serve the same routes. Anything the router does not handle falls through
+ * to the ASSETS binding Pages provides for the static site.
+ *
+ * Pages has no cron triggers: queued email still gets its first delivery
+ * attempt inline, but retries, scheduled broadcasts and account deletions
+ * whose grace period has ended only advance where the worker's `scheduled`
+ * handler runs. A Pages-only deployment never erases accounts on its own.
+ */
+export function onRequest(context: PagesFunctionContext): Promise<Response> {
+  const ctx: ExecutionContext & { log?: (...args: unknown[]) => void } = {
+    waitUntil: (promise) => context.waitUntil(promise),
+    passThroughOnException: () => context.passThroughOnException(),
+  };
+
+  if (context.log) {
+    ctx.log = context.log;
+  }
+
+  return worker.fetch(context.request, context.env, ctx);
+}
@@ -22,6 +22,7 @@ const baselineReinvestmentTarget = document.getElementById('baseline-reinvestmen
 const scenarioReinvestmentTarget = document.getElementById('scenario-reinvestment');
 const deltaReinvestmentTarget = document.getElementById('delta-reinvestment');
 const dashboardYear = document.getElementById('dashboard-year');
+const adminLogoutLink = document.getElementById('admin-logout');
 
 const BASELINE = {
   members: 100,
@@ -196,3 +197,17 @@ if (membersSlider && panelsSlider) {
 if (dashboardYear) {
   dashboardYear.textContent = new Date().getFullYear().toString();
 }
+
+if (adminLogoutLink) {
+  adminLogoutLink.addEventListener('click', async (event) => {
+    event.preventDefault();
+
+    try {
+      await fetch('/api/admin/logout', { method: 'POST', credentials: 'same-origin' });
+    } catch (error) {
+      console.error('Admin logout request failed', error);
+    } finally {
+      window.location.href = '/admin.html';
+    }
+  });
+}
@@ -1,6 +1,13 @@
 const form = document.getElementById('login-form');
 const message = document.getElementById('login-message');
 const submitButton = form?.querySelector('button[type="submit"]');
+const sessionPanel = document.getElementById('session-panel');
+const sessionStatus = document.getElementById('session-status');
+const logoutButton = document.getElementById('logout-button');
+const linkButton = document.getElementById('link-button');
+const deletionPanel = document.getElementById('deletion-panel');
+const deletionStatus = document.getElementById('deletion-status');
+const cancelDeletionButton = document.getElementById('cancel-deletion-button');
 
 function setMessage(text, status) {
   if (!message) return;
@@ -17,7 +24,7 @@ function setSubmitting(isSubmitting) {
   submitButton.textContent = isSubmitting ? 'Logging in…' : 'Log in';
 }
 
-function validateInputs(email, password) {
+function validateEmail(email) {
   if (!email) {
     setMessage('Please enter your email address.', 'error');
     return false;
@@ -29,6 +36,14 @@ function validateInputs(email, password) {
     return false;
   }
 
+  return true;
+}
+
+function validateInputs(email, password) {
+  if (!validateEmail(email)) {
+    return false;
+  }
+
   if (!password) {
     setMessage('Please enter your password.', 'error');
     return false;
@@ -37,6 +52,124 @@ function validateInputs(email, password) {
   return true;
 }
 
+function showDeletion(deletion) {
+  if (!deletionPanel || !deletionStatus || !cancelDeletionButton) return;
+  deletionPanel.hidden = !deletion;
+  cancelDeletionButton.hidden = false;
+  deletionStatus.textContent = deletion
+    ? `Your account is due to be deleted on ${new Date(deletion.deleteAfter).toLocaleDateString()}.`
+    : '';
+}
+
+function showSignedIn(profile, deletion) {
+  if (!form || !sessionPanel || !sessionStatus) return;
+  sessionStatus.textContent = `You are signed in as ${profile.name ?? profile.email}.`;
+  showDeletion(deletion);
+  sessionPanel.hidden = false;
+  form.hidden = true;
+}
+
+function showSignedOut() {
+  if (!form || !sessionPanel) return;
+  sessionPanel.hidden = true;
+  form.hidden = false;
+}
+
+async function refreshSession() {
+  try {
+    const response = await fetch('/api/me', { credentials: 'same-origin' });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok && data.success && data.profile) {
+      showSignedIn(data.profile, data.deletion);
+      return true;
+    }
+  } catch (error) {
+    console.error('Session lookup failed', error);
+  }
+
+  showSignedOut();
+  return false;
+}
+
+if (logoutButton) {
+  logoutButton.addEventListener('click', async () => {
+    logoutButton.disabled = true;
+
+    try {
+      await fetch('/api/logout', { method: 'POST', credentials: 'same-origin' });
+    } catch (error) {
+      console.error('Logout request failed', error);
+    } finally {
+      logoutButton.disabled = false;
+      showSignedOut();
+      setMessage('You have been logged out.', 'success');
+    }
+  });
+}
+
+// The login form, and with it the message line, is hidden while signed in, so
+// the outcome is reported in the deletion panel itself.
+if (cancelDeletionButton && deletionStatus) {
+  cancelDeletionButton.addEventListener('click', async () => {
+    cancelDeletionButton.disabled = true;
+
+    try {
+      const response = await fetch('/api/account/deletion', { method: 'DELETE', credentials: 'same-origin' });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        deletionStatus.textContent = data?.error ?? 'We could not cancel the deletion just now. Please try again soon.';
+        return;
+      }
+
+      deletionStatus.textContent = data.message ?? 'Your account will not be deleted.';
+      cancelDeletionButton.hidden = true;
+    } catch (error) {
+      console.error('Deletion cancel request failed', error);
+      deletionStatus.textContent = 'Something went wrong on our end. Please try again shortly.';
+    } finally {
+      cancelDeletionButton.disabled = false;
+    }
+  });
+}
+
+refreshSession();
+
+if (form && linkButton) {
+  linkButton.addEventListener('click', async () => {
+    const email = (new FormData(form).get('email') ?? '').toString().trim().toLowerCase();
+    if (!validateEmail(email)) {
+      return;
+    }
+
+    linkButton.disabled = true;
+    setMessage('Sending your sign-in link…');
+
+    try {
+      const response = await fetch('/api/login/link', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        setMessage(data?.error ?? 'We could not send a sign-in link just now. Please try again soon.', 'error');
+        return;
+      }
+
+      setMessage(data.message ?? 'Check your inbox for a sign-in link.', 'success');
+    } catch (error) {
+      console.error('Login link request failed', error);
+      setMessage('Something went wrong on our end. Please try again shortly.', 'error');
+    } finally {
+      linkButton.disabled = false;
+    }
+  });
+}
+
 if (form && message) {
   form.addEventListener('submit', async (event) => {
     event.preventDefault();
@@ -56,6 +189,7 @@ if (form && message) {
       const response = await fetch('/api/login', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
+        credentials: 'same-origin',
         body: JSON.stringify({ email, password }),
       });
 
@@ -69,6 +203,33 @@ if (form && message) {
 
       setMessage(data.message ?? 'You are logged in! We will redirect you shortly.', 'success');
       form.reset();
+      await // The login form, and with it the message line, is hidden while signed in, so
+// the outcome is reported in the deletion panel itself.
+if (cancelDeletionButton && deletionStatus) {
+  cancelDeletionButton.addEventListener('click', async () => {
+    cancelDeletionButton.disabled = true;
+
+    try {
+      const response = await fetch('/api/account/deletion', { method: 'DELETE', credentials: 'same-origin' });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        deletionStatus.textContent = data?.error ?? 'We could not cancel the deletion just now. Please try again soon.';
+        return;
+      }
+
+      deletionStatus.textContent = data.message ?? 'Your account will not be deleted.';
+      cancelDeletionButton.hidden = true;
+    } catch (error) {
+      console.error('Deletion cancel request failed', error);
+      deletionStatus.textContent = 'Something went wrong on our end. Please try again shortly.';
+    } finally {
+      cancelDeletionButton.disabled = false;
+    }
+  });
+}
+
+refreshSession();
     } catch (error) {
       console.error('Login request failed', error);
       setMessage('Something went wrong on our end. Please try again shortly.', 'error');
@@ -0,0 +1,119 @@
+const forgotForm = document.getElementById('forgot-form');
+const forgotMessage = document.getElementById('forgot-message');
+const resetForm = document.getElementById('reset-form');
+const resetMessage = document.getElementById('reset-message');
+const heading = document.getElementById('reset-heading');
+const lede = document.getElementById('reset-lede');
+
+const token = new URLSearchParams(window.location.search).get('token');
+
+function setMessage(target, text, status) {
+  if (!target) return;
+  target.textContent = text;
+  target.classList.remove('success', 'error');
+  if (status) {
+    target.classList.add(status);
+  }
+}
+
+function setSubmitting(form, isSubmitting, idleLabel, busyLabel) {
+  const submitButton = form?.querySelector('button[type="submit"]');
+  if (!submitButton) return;
+  submitButton.disabled = isSubmitting;
+  submitButton.textContent = isSubmitting ? busyLabel : idleLabel;
+}
+
+async function postJson(path, body) {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { response, data };
+}
+
+if (token && resetForm && forgotForm) {
+  forgotForm.hidden = true;
+  resetForm.hidden = false;
+  if (heading) heading.textContent = 'Choose a new password';
+  if (lede) lede.textContent = 'Pick a password with at least 8 characters. Reset links work once and expire after an hour.';
+}
+
+if (forgotForm && forgotMessage) {
+  forgotForm.addEventListener('submit', async (event) => {
+    event.preventDefault();
+
+    const formData = new FormData(forgotForm);
+    const email = (formData.get('email') ?? '').toString().trim().toLowerCase();
+
+    const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailPattern.test(email)) {
+      setMessage(forgotMessage, 'That email doesn’t look quite right.', 'error');
+      return;
+    }
+
+    setSubmitting(forgotForm, true, 'Send reset link', 'Sending…');
+    setMessage(forgotMessage, 'Sending your reset link…');
+
+    try {
+      const { response, data } = await postJson('/api/password/forgot', { email });
+
+      if (!response.ok || !data.success) {
+        setMessage(forgotMessage, data?.error ?? 'We could not send a reset link right now. Please try again.', 'error');
+        return;
+      }
+
+      setMessage(forgotMessage, data.message ?? 'Check your inbox for a reset link.', 'success');
+      forgotForm.reset();
+    } catch (error) {
+      console.error('Password reset request failed', error);
+      setMessage(forgotMessage, 'Something went wrong on our end. Please try again shortly.', 'error');
+    } finally {
+      setSubmitting(forgotForm, false, 'Send reset link', 'Sending…');
+    }
+  });
+}
+
+if (resetForm && resetMessage) {
+  resetForm.addEventListener('submit', async (event) => {
+    event.preventDefault();
+
+    const formData = new FormData(resetForm);
+    const password = (formData.get('password') ?? '').toString();
+    const confirm = (formData.get('confirm') ?? '').toString();
+
+    if (password.length < 8) {
+      setMessage(resetMessage, 'Passwords need to be at least 8 characters long.', 'error');
+      return;
+    }
+
+    if (password !== confirm) {
+      setMessage(resetMessage, 'Those passwords don’t match.', 'error');
+      return;
+    }
+
+    setSubmitting(resetForm, true, 'Save new password', 'Saving…');
+    setMessage(resetMessage, 'Saving your new password…');
+
+    try {
+      const { response, data } = await postJson('/api/password/reset', { token, password });
+
+      if (!response.ok || !data.success) {
+        setMessage(resetMessage, data?.error ?? 'We could not reset your password. Please try again.', 'error');
+        return;
+      }
+
+      setMessage(resetMessage, data.message ?? 'Your password has been reset.', 'success');
+      resetForm.reset();
+      setTimeout(() => {
+        window.location.href = '/login.html';
+      }, 1500);
+    } catch (error) {
+      console.error('Password reset failed', error);
+      setMessage(resetMessage, 'Something went wrong on our end. Please try again shortly.', 'error');
+    } finally {
+      setSubmitting(resetForm, false, 'Save new password', 'Saving…');
+    }
+  });
+}
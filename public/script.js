@@ -54,7 +54,11 @@ if (form && message) {
       const response = await fetch('/api/subscribe', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ email: normalizedEmail }),
+        body: JSON.stringify({
+          email: normalizedEmail,
+          source: window.location.pathname,
+          consentVersion: form.dataset.consentVersion,
+        }),
       });
 
       const data = await response.json().catch(() => ({}));
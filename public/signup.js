@@ -1,7 +1,22 @@
 const form = document.getElementById('profile-form');
 const message = document.getElementById('profile-message');
+const heading = document.querySelector('h1');
 const submitButton = form?.querySelector('button[type="submit"]');
 
+// The link in the welcome email carries a one-time token proving the visitor
+// owns the address. Signed-in members edit their profile through their
+// session instead; anyone else is asked for their address and sent a link.
+const setupToken = new URLSearchParams(window.location.search).get('token');
+
+const MODES = {
+  setup: { fields: ['name', 'password', 'bio'], label: 'Save my profile' },
+  edit: { fields: ['name', 'password', 'currentPassword', 'bio'], label: 'Update my profile' },
+  request: { fields: ['email'], label: 'Email me a profile link' },
+};
+const FIELD_NAMES = ['email', 'name', 'password', 'currentPassword', 'bio'];
+
+let mode = setupToken ? 'setup' : 'request';
+
 function setMessage(text, status) {
   if (!message) return;
   message.textContent = text;
@@ -11,13 +26,48 @@ function setMessage(text, status) {
   }
 }
 
+function showFields(names) {
+  for (const name of FIELD_NAMES) {
+    const field = form?.elements.namedItem(name);
+    if (!(field instanceof HTMLElement)) continue;
+
+    // Disabled controls skip `required` checks and are left out of FormData.
+    const visible = names.includes(name);
+    field.toggleAttribute('disabled', !visible);
+    field.closest('.field')?.toggleAttribute('hidden', !visible);
+  }
+}
+
+function applyMode(nextMode) {
+  mode = nextMode;
+  showFields(MODES[mode].fields);
+  setSubmitting(false);
+}
+
+function clearFieldErrors() {
+  form?.querySelectorAll('[aria-invalid]').forEach((field) => field.removeAttribute('aria-invalid'));
+}
+
+// The API reports failed fields as { fields: { name: { code, message } } }.
+function showFieldErrors(fields) {
+  let first = null;
+  for (const name of Object.keys(fields ?? {})) {
+    const field = form?.elements.namedItem(name);
+    if (field instanceof HTMLElement) {
+      field.setAttribute('aria-invalid', 'true');
+      first ??= field;
+    }
+  }
+  first?.focus();
+}
+
 function setSubmitting(isSubmitting) {
   if (!submitButton) return;
   submitButton.disabled = isSubmitting;
-  submitButton.textContent = isSubmitting ? 'Saving…' : 'Save my profile';
+  submitButton.textContent = isSubmitting ? 'Saving…' : MODES[mode].label;
 }
 
-function validateInputs(email, name, password, bio) {
+function validateEmail(email) {
   if (!email) {
     setMessage('Please provide an email address.', 'error');
     return false;
@@ -29,17 +79,22 @@ function validateInputs(email, name, password, bio) {
     return false;
   }
 
+  return true;
+}
+
+function validateProfile(name, password, bio) {
   if (!name) {
     setMessage('Share your name so we know what to call you.', 'error');
     return false;
   }
 
-  if (!password) {
+  // Members editing their profile keep their password unless they type one.
+  if (!password && mode === 'setup') {
     setMessage('Create a password so you can log in later.', 'error');
     return false;
   }
 
-  if (password.length < 8) {
+  if (password && password.length < 8) {
     setMessage('Passwords need to be at least 8 characters long.', 'error');
     return false;
   }
@@ -52,7 +107,62 @@ function validateInputs(email, name, password, bio) {
   return true;
 }
 
+function showProfile(profile) {
+  if (!form) return;
+  applyMode('edit');
+  form.elements.namedItem('name').value = profile.name ?? '';
+  form.elements.namedItem('bio').value = profile.bio ?? '';
+  form.elements.namedItem('password').placeholder = 'Leave blank to keep your password';
+  if (heading) heading.textContent = 'Edit your Solar Roots profile';
+  setMessage(`Signed in as ${profile.email}.`);
+}
+
+async function loadSignedInProfile() {
+  try {
+    const response = await fetch('/api/me', { credentials: 'same-origin' });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.ok && data.success && data.profile) {
+      showProfile(data.profile);
+      return;
+    }
+  } catch (error) {
+    console.error('Session lookup failed', error);
+  }
+
+  setMessage('Enter the address you subscribed with and we will email you a link to create your profile.');
+}
+
+function requestFor(values) {
+  const { email, name, password, currentPassword, bio } = values;
+
+  if (mode === 'setup') {
+    return { url: '/api/profile', body: { token: setupToken, name, password, bio } };
+  }
+
+  if (mode === 'edit') {
+    // Blank values are left out so the API keeps the current password.
+    return {
+      url: '/api/profile',
+      body: { name, bio, password: password || undefined, currentPassword: currentPassword || undefined },
+    };
+  }
+
+  return { url: '/api/profile/setup-link', body: { email } };
+}
+
 if (form && message) {
+  applyMode(mode);
+  if (!setupToken) {
+    loadSignedInProfile();
+  }
+
+  form.addEventListener('input', (event) => {
+    if (event.target instanceof HTMLElement) {
+      event.target.removeAttribute('aria-invalid');
+    }
+  });
+
   form.addEventListener('submit', async (event) => {
     event.preventDefault();
 
@@ -60,20 +170,24 @@ if (form && message) {
     const email = (formData.get('email') ?? '').toString().trim().toLowerCase();
     const name = (formData.get('name') ?? '').toString().trim();
     const password = (formData.get('password') ?? '').toString();
+    const currentPassword = (formData.get('currentPassword') ?? '').toString();
     const bio = (formData.get('bio') ?? '').toString().trim();
 
-    if (!validateInputs(email, name, password, bio)) {
+    clearFieldErrors();
+    if (mode === 'request' ? !validateEmail(email) : !validateProfile(name, password, bio)) {
       return;
     }
 
     setSubmitting(true);
-    setMessage('Saving your profile…');
+    setMessage(mode === 'request' ? 'Sending your link…' : 'Saving your profile…');
 
     try {
-      const response = await fetch('/api/profile', {
+      const { url, body } = requestFor({ email, name, password, currentPassword, bio });
+      const response = await fetch(url, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ email, name, password, bio }),
+        credentials: 'same-origin',
+        body: JSON.stringify(body),
       });
 
       const data = await response.json().catch(() => ({}));
@@ -81,11 +195,17 @@ if (form && message) {
       if (!response.ok || !data.success) {
         const errorMessage = data?.error ?? 'We could not save your profile. Please try again.';
         setMessage(errorMessage, 'error');
+        showFieldErrors(data?.fields);
         return;
       }
 
       setMessage(data.message ?? 'Profile saved successfully!', 'success');
-      form.reset();
+      if (mode === 'edit') {
+        form.elements.namedItem('password').value = '';
+        form.elements.namedItem('currentPassword').value = '';
+      } else {
+        form.reset();
+      }
     } catch (error) {
       console.error('Profile request failed', error);
       setMessage('Something went wrong on our end. Please try again shortly.', 'error');
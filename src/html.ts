@@ -0,0 +1,20 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/** Makes text safe to place in markup, including inside quoted attributes. */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => HTML_ENTITIES[character]);
+}
+
+/** Reverses `escapeHtml`; other entities are left as they are. */
+export function decodeHtml(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|#39);/g, (entity) => {
+    const match = Object.entries(HTML_ENTITIES).find(([, encoded]) => encoded === entity);
+    return match ? match[0] : entity;
+  });
+}
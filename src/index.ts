@@ -1,17 +1,38 @@
-interface D1PreparedStatement {
-  bind(...values: unknown[]): D1PreparedStatement;
-  first<T = unknown>(): Promise<T | null>;
-  run<T = unknown>(): Promise<T>;
-}
+import { escapeHtml } from './html';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  OUTBOX_MAX_ATTEMPTS,
+  deliverQueuedEmail,
+  drainOutbox,
+  enqueueEmail,
+  enqueueEmailStatement,
+  isEmailTemplateName,
+  renderEmail,
+  renderSampleEmail,
+  type OutboxRow,
+  type OutgoingEmail,
+  type RenderedEmail,
+} from './mail';
+import { migrate, migrationStatus } from './migrations';
+import { resolveRoute, routeMethods, type RouteDefinition, type RouteParams } from './router';
+import {
+  dateField,
+  emailField,
+  enumField,
+  isValidEmail,
+  listField,
+  optional,
+  stringField,
+  validateBody,
+  type BodySchema,
+  type FieldError,
+  type SchemaValues,
+} from './validation';
 
 interface AssetFetcher {
   fetch(request: Request): Promise<Response>;
 }
 
-interface D1Database {
-  prepare(query: string): D1PreparedStatement;
-}
-
 export interface Env {
   DB: D1Database;
   ASSETS?: AssetFetcher;
@@ -19,18 +40,140 @@ export interface Env {
   MAIL_FROM_NAME?: string;
   MAILCHANNELS_DOMAIN?: string;
   MAILCHANNELS_SUBDOMAIN?: string;
+  MAIL_TRANSPORT?: string;
+  SENDGRID_API_KEY?: string;
+  SENDGRID_FROM_EMAIL?: string;
+  SENDGRID_FROM_NAME?: string;
   SITE_BASE_URL?: string;
+  ALLOWED_ORIGINS?: string;
   ADMIN_EMAIL?: string;
   ADMIN_PASSWORD?: string;
   ADMIN_PASSWORD_HASH?: string;
+  SESSION_SECRET?: string;
+  CONFIRMATION_TOKEN_TTL_HOURS?: string;
+  UNSUBSCRIBE_SECRET?: string;
 }
 
 interface SubscriptionRecord {
   email: string;
   confirmed: number;
   confirmation_token?: string | null;
+  token_created_at?: string | null;
+  unsubscribed_at?: string | null;
+}
+
+interface AdminSubscriptionRow {
+  email: string;
+  confirmed: number;
+  created_at: string | null;
+  updated_at: string | null;
+  profile_name: string | null;
+  profile_bio: string | null;
+  profile_created_at: string | null;
+}
+
+interface SubscriptionFilters {
+  conditions: string[];
+  bindings: unknown[];
+  order: 'asc' | 'desc';
+}
+
+type ImportRowStatus = 'created' | 'merged' | 'skipped' | 'duplicate' | 'invalid' | 'failed';
+
+type BroadcastStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled';
+
+type BroadcastAction = 'recipients' | 'test' | 'schedule' | 'cancel';
+
+// Validated body of a broadcast write; which fields are set depends on the
+// route's schema.
+interface BroadcastInput {
+  subject?: string;
+  html?: string;
+  sendAt?: Date;
+}
+
+interface BroadcastRecord {
+  id: string;
+  subject: string;
+  html_body: string;
+  status: BroadcastStatus;
+  scheduled_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+interface ImportRowReport {
+  row: number;
+  email: string;
+  status: ImportRowStatus;
+  reason?: string;
+}
+
+type SessionRole = 'member' | 'admin';
+
+type LoginOutcome = 'success' | 'failure' | 'locked';
+
+type EmailTokenPurpose = 'profile_setup' | 'login' | 'email_change';
+
+type ConsentEventType = 'subscribe' | 'confirm' | 'unsubscribe' | 'resubscribe';
+
+interface ConsentEventRow {
+  email: string;
+  event: ConsentEventType;
+  ip_hash: string | null;
+  user_agent: string | null;
+  source: string;
+  wording_version: string;
+  created_at: string;
+}
+
+interface SessionRecord {
+  id: string;
+  email: string;
+  role: SessionRole;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface UserSession {
+  id: string;
+  email: string;
+  role: SessionRole;
+  createdAt: string;
+  expiresAt: string;
 }
 
+interface RateLimitRule {
+  by: 'ip' | 'email';
+  limit: number;
+  windowSeconds: number;
+}
+
+type SessionHandler = (
+  request: Request,
+  env: Env,
+  session: UserSession,
+  log: (...args: unknown[]) => void
+) => Promise<Response>;
+
+interface RouteCall {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  params: RouteParams;
+  log: (...args: unknown[]) => void;
+}
+
+type AppRoute = RouteDefinition & {
+  rateLimit?: keyof typeof RATE_LIMITS;
+} & (
+    | { auth?: undefined; handle(call: RouteCall): Promise<Response> | Response }
+    | { auth: 'member' | 'admin'; handle(call: RouteCall, session: UserSession): Promise<Response> | Response }
+  );
+
 const JSON_HEADERS: Record<string, string> = {
   'content-type': 'application/json',
 };
@@ -39,12 +182,208 @@ const HTML_HEADERS: Record<string, string> = {
   'content-type': 'text/html; charset=utf-8',
 };
 
-const CORS_HEADERS: Record<string, string> = {
-  'access-control-allow-origin': '*',
-  'access-control-allow-methods': 'POST,OPTIONS',
-  'access-control-allow-headers': 'content-type',
+const CORS_ALLOWED_HEADERS = 'content-type';
+const CORS_PREFLIGHT_MAX_AGE_SECONDS = 10 * 60;
+
+const PASSWORD_HASH_PREFIX = 'pbkdf2-sha256';
+// Cloudflare Workers reject PBKDF2 requests above 100,000 iterations.
+const PASSWORD_HASH_ITERATIONS = 100000;
+
+const CONFIRMATION_TOKEN_TTL_HOURS_DEFAULT = 48;
+const CONFIRMATION_RESEND_COOLDOWN_SECONDS = 5 * 60;
+
+const UNSUBSCRIBE_REASONS: Record<string, string> = {
+  too_many: 'I get too many emails',
+  not_relevant: 'The updates are not relevant to me',
+  never_signed_up: 'I never signed up',
+  other: 'Something else',
+};
+
+// Identifies the opt-in wording people agreed to. Bump it together with
+// `data-consent-version` in public/index.html whenever the signup footnote or
+// the confirmation email changes.
+const CONSENT_WORDING_VERSION = '2026-10';
+const CONSENT_SOURCE_MAX_LENGTH = 200;
+// Imported addresses agreed to wording shown somewhere else, so their events
+// carry this marker instead of a version of ours.
+const IMPORTED_CONSENT_WORDING = 'imported';
+
+const PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+const PROFILE_SETUP_TTL_SECONDS = 7 * 24 * 60 * 60;
+const LOGIN_LINK_TTL_SECONDS = 15 * 60;
+const EMAIL_CHANGE_TTL_SECONDS = 24 * 60 * 60;
+const ACCOUNT_DELETION_GRACE_SECONDS = 14 * 24 * 60 * 60;
+const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MAX_LENGTH = 256;
+
+const PROFILE_NAME_MAX_LENGTH = 100;
+const PROFILE_BIO_MAX_LENGTH = 2000;
+
+const NEW_PASSWORD_FIELD = stringField({
+  label: 'Password',
+  min: PASSWORD_MIN_LENGTH,
+  max: PASSWORD_MAX_LENGTH,
+  trim: false,
+});
+
+const CURRENT_PASSWORD_FIELD = stringField({ label: 'Current password', max: PASSWORD_MAX_LENGTH, trim: false });
+
+const INCORRECT_CURRENT_PASSWORD: Record<string, FieldError> = {
+  currentPassword: { code: 'incorrect_password', message: 'Your current password is incorrect.' },
+};
+
+// Request body schemas, attached to routes with `withBody`.
+const EMAIL_BODY = { email: emailField() };
+
+const SUBSCRIBE_BODY = {
+  email: emailField(),
+  source: optional(stringField({ label: 'Source', max: CONSENT_SOURCE_MAX_LENGTH })),
+  // Only the wording this deployment serves can be recorded; a page cached
+  // from before a wording change has to be reloaded first.
+  consentVersion: optional(enumField('Consent version', [CONSENT_WORDING_VERSION])),
+};
+
+const PROFILE_BODY = {
+  token: optional(stringField({ label: 'Setup token' })),
+  name: stringField({ label: 'Name', max: PROFILE_NAME_MAX_LENGTH }),
+  bio: stringField({ label: 'Bio', max: PROFILE_BIO_MAX_LENGTH }),
+  password: optional(NEW_PASSWORD_FIELD),
+  currentPassword: optional(CURRENT_PASSWORD_FIELD),
+};
+
+const EMAIL_CHANGE_BODY = {
+  email: emailField(),
+  currentPassword: optional(CURRENT_PASSWORD_FIELD),
+};
+
+const ACCOUNT_DELETION_BODY = {
+  currentPassword: optional(CURRENT_PASSWORD_FIELD),
+};
+
+const LOGIN_BODY = {
+  email: emailField(),
+  password: stringField({ label: 'Password', max: PASSWORD_MAX_LENGTH, trim: false }),
+};
+
+const PASSWORD_RESET_BODY = {
+  token: stringField({ label: 'Reset token' }),
+  password: NEW_PASSWORD_FIELD,
+};
+
+const UNLOCK_BODY = {
+  email: emailField(),
+  role: optional(enumField<SessionRole>('Role', ['member', 'admin'])),
+};
+
+const OUTBOX_REQUEUE_BODY = {
+  ids: optional(listField('Ids', stringField({ label: 'Message id' }))),
+};
+
+const SESSION_COOKIES: Record<SessionRole, string> = {
+  member: 'sr_session',
+  admin: 'sr_admin',
+};
+
+const SESSION_TTL_SECONDS: Record<SessionRole, number> = {
+  member: 60 * 60 * 24 * 7,
+  admin: 60 * 60 * 2,
+};
+
+const SESSION_ROTATION_SECONDS = 60 * 60 * 24;
+
+const LOGIN_LOCKOUT_THRESHOLD = 5;
+const LOGIN_FAILURE_WINDOW_SECONDS = 15 * 60;
+const LOGIN_LOCKOUT_SECONDS = 30 * 60;
+
+const ADMIN_PAGES = new Set(['/dashboard', '/dashboard.html']);
+
+const ADMIN_PAGE_SIZE_DEFAULT = 50;
+const ADMIN_PAGE_SIZE_MAX = 200;
+
+// Columns an admin may export. Secrets such as password_hash and
+// confirmation_token are deliberately absent so they can never be selected.
+const EXPORT_COLUMNS: Record<string, string> = {
+  email: 's.email',
+  confirmed: 's.confirmed',
+  created_at: 's.created_at',
+  updated_at: 's.updated_at',
+  name: 'p.name',
+  bio: 'p.bio',
+  profile_created_at: 'p.created_at',
+  profile_updated_at: 'p.updated_at',
+};
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Sliding-window limits applied by the router before the matching handler
+// runs. Email rules key on the normalized address in the JSON body.
+const RATE_LIMITS: Record<
+  'check' | 'subscribe' | 'profileLink' | 'emailChange' | 'login' | 'loginLink' | 'passwordForgot' | 'adminLogin',
+  RateLimitRule[]
+> = {
+  check: [{ by: 'ip', limit: 30, windowSeconds: 60 }],
+  subscribe: [
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  ],
+  profileLink: [
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  ],
+  emailChange: [
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  ],
+  login: [
+    { by: 'ip', limit: 20, windowSeconds: 15 * 60 },
+    { by: 'email', limit: 10, windowSeconds: 15 * 60 },
+  ],
+  loginLink: [
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  ],
+  passwordForgot: [
+    { by: 'ip', limit: 10, windowSeconds: 60 * 60 },
+    { by: 'email', limit: 3, windowSeconds: 60 * 60 },
+  ],
+  adminLogin: [
+    { by: 'ip', limit: 5, windowSeconds: 15 * 60 },
+    { by: 'email', limit: 5, windowSeconds: 15 * 60 },
+  ],
 };
 
+const IMPORT_MAX_ROWS = 1000;
+const IMPORT_LOOKUP_CHUNK = 50;
+// Rows written per D1 batch. Each batch commits on its own, so a failure
+// keeps the batches before it and the report marks every later row failed.
+const IMPORT_WRITE_CHUNK = 100;
+
+// Recipients moved into the outbox per cron run; the outbox drain then paces
+// the actual sends.
+const BROADCAST_BATCH_SIZE = 100;
+const BROADCAST_SUBJECT_MAX_LENGTH = 200;
+const BROADCAST_HTML_MAX_LENGTH = 100_000;
+
+const BROADCAST_SUBJECT_FIELD = stringField({ label: 'Subject', max: BROADCAST_SUBJECT_MAX_LENGTH, singleLine: true });
+const BROADCAST_HTML_FIELD = stringField({ label: 'HTML content', max: BROADCAST_HTML_MAX_LENGTH });
+
+const BROADCAST_BODY = { subject: BROADCAST_SUBJECT_FIELD, html: BROADCAST_HTML_FIELD };
+
+// Edits change only the fields they send.
+const BROADCAST_EDIT_BODY = { subject: optional(BROADCAST_SUBJECT_FIELD), html: optional(BROADCAST_HTML_FIELD) };
+
+// Scheduling without a body, or without sendAt, means "send now".
+const BROADCAST_SCHEDULE_BODY = { sendAt: optional(dateField('sendAt')) };
+
+// A recipient's delivery status combines its own row with the outbox message
+// it was queued as.
+const BROADCAST_DELIVERY_STATUS = `CASE
+  WHEN r.status != 'queued' THEN r.status
+  WHEN o.status = 'sent' THEN 'sent'
+  WHEN o.status = 'dead' THEN 'failed'
+  ELSE 'queued'
+END`;
+
 function getLogger(ctx: ExecutionContext): (...args: unknown[]) => void {
   if ('log' in ctx && typeof (ctx as { log?: (...args: unknown[]) => void }).log === 'function') {
     return (...args: unknown[]) => {
@@ -71,21 +410,90 @@ async function parseJson(request: Request, log: (...args: unknown[]) => void): P
   }
 }
 
-function isValidEmail(email: string): boolean {
-  const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailPattern.test(email);
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
 }
 
 const encoder = new TextEncoder();
 
-async function hashPassword(password: string): Promise<string> {
-  const data = encoder.encode(password);
-  const digest = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(digest))
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
     .map((byte) => byte.toString(16).padStart(2, '0'))
     .join('');
 }
 
+function fromHex(hex: string): ArrayBuffer | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let index = 0; index < bytes.length; index += 1) {
+    bytes[index] = parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+
+  return bytes.buffer;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+  return toHex(digest);
+}
+
+async function derivePasswordKey(password: string, salt: BufferSource, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(bits);
+}
+
+/**
+ * Hashes a password as `pbkdf2-sha256$<iterations>$<salt>$<hash>` so the
+ * parameters travel with the hash and can be raised later.
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = new Uint8Array(16);
+  crypto.getRandomValues(salt);
+  const hash = await derivePasswordKey(password, salt, PASSWORD_HASH_ITERATIONS);
+  return `${PASSWORD_HASH_PREFIX}$${PASSWORD_HASH_ITERATIONS}$${toHex(salt)}$${hash}`;
+}
+
+/**
+ * Checks a password against a stored hash in either the PBKDF2 format or the
+ * legacy unsalted SHA-256 hex digest. `needsRehash` is set when the password
+ * matched but the stored hash should be replaced with a fresh one.
+ */
+async function verifyPassword(password: string, stored: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (stored.startsWith(`${PASSWORD_HASH_PREFIX}$`)) {
+    const [, iterationsPart, saltHex, hash] = stored.split('$');
+    const iterations = Number(iterationsPart);
+    const salt = fromHex(saltHex ?? '');
+    if (!Number.isInteger(iterations) || iterations < 1 || !salt || !hash) {
+      return { valid: false, needsRehash: false };
+    }
+
+    const candidate = await derivePasswordKey(password, salt, iterations);
+    const valid = timingSafeEqual(candidate, hash.toLowerCase());
+    return { valid, needsRehash: valid && iterations < PASSWORD_HASH_ITERATIONS };
+  }
+
+  const valid = timingSafeEqual(await sha256Hex(password), stored.toLowerCase());
+  return { valid, needsRehash: valid };
+}
+
+async function signValue(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return toHex(signature);
+}
+
+function generateToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+}
+
 function timingSafeEqual(a: string, b: string): boolean {
   if (a.length !== b.length) {
     return false;
@@ -99,41 +507,94 @@ function timingSafeEqual(a: string, b: string): boolean {
   return result === 0;
 }
 
-async function ensureColumn(
-  db: D1Database,
-  table: 'subscriptions' | 'profiles',
-  column: string,
-  definition: string
-): Promise<void> {
-  const existing = await db
-    .prepare(`SELECT name FROM pragma_table_info('${table}') WHERE name = ?`)
-    .bind(column)
-    .first<{ name: string }>();
+const schemaChecks = new WeakMap<D1Database, Promise<void>>();
 
-  if (!existing) {
-    await db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+// Migrations are checked once per isolate; a failed check is forgotten so the
+// next request retries instead of serving against a half-migrated schema.
+export function ensureSchema(db: D1Database): Promise<void> {
+  const cached = schemaChecks.get(db);
+  if (cached) {
+    return cached;
   }
+
+  const check = migrate(db).then(() => undefined);
+  check.catch(() => schemaChecks.delete(db));
+  schemaChecks.set(db, check);
+  return check;
 }
 
-async function ensureSchema(db: D1Database): Promise<void> {
-  await db
-    .prepare(
-      'CREATE TABLE IF NOT EXISTS subscriptions (email TEXT PRIMARY KEY, created_at TEXT NOT NULL, updated_at TEXT, confirmed INTEGER NOT NULL DEFAULT 0, confirmation_token TEXT, token_created_at TEXT)'
-    )
-    .run();
+async function rateLimitSubject(request: Request, by: RateLimitRule['by']): Promise<string | null> {
+  if (by === 'ip') {
+    return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+  }
 
-  await db
-    .prepare(
-      'CREATE TABLE IF NOT EXISTS profiles (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, name TEXT NOT NULL, bio TEXT NOT NULL, password_hash TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, FOREIGN KEY(email) REFERENCES subscriptions(email))'
-    )
-    .run();
+  try {
+    const payload = (await request.clone().json()) as Record<string, unknown> | null;
+    return payload && typeof payload.email === 'string' ? normalizeEmail(payload.email) || null : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a hit against every rule for the route and returns a 429 once any
+ * window is full. Storage failures let the request through: a broken limiter
+ * should not take the signup form down with it.
+ */
+async function enforceRateLimits(
+  request: Request,
+  env: Env,
+  route: keyof typeof RATE_LIMITS,
+  log: (...args: unknown[]) => void
+): Promise<Response | null> {
+  const now = Date.now();
+
+  try {
+    await ensureSchema(env.DB);
+    await env.DB.prepare('DELETE FROM rate_limit_hits WHERE expires_at <= ?').bind(now).run();
+
+    let retryAfter = 0;
+    const keys: Array<{ key: string; rule: RateLimitRule }> = [];
+
+    for (const rule of RATE_LIMITS[route]) {
+      const subject = await rateLimitSubject(request, rule.by);
+      if (!subject) {
+        continue;
+      }
+
+      const key = `${route}:${rule.by}:${subject}`;
+      const windowMs = rule.windowSeconds * 1000;
+      const usage = await env.DB.prepare(
+        'SELECT COUNT(*) AS hits, MIN(hit_at) AS oldest FROM rate_limit_hits WHERE key = ? AND hit_at > ?'
+      )
+        .bind(key, now - windowMs)
+        .first<{ hits: number; oldest: number | null }>();
+
+      if (usage && usage.hits >= rule.limit) {
+        const waitMs = (usage.oldest ?? now) + windowMs - now;
+        retryAfter = Math.max(retryAfter, Math.ceil(waitMs / 1000), 1);
+      } else {
+        keys.push({ key, rule });
+      }
+    }
+
+    if (retryAfter > 0) {
+      log('Rate limit exceeded', { route, retryAfter });
+      const response = jsonResponse({ success: false, error: 'Too many requests. Please try again later.' }, 429);
+      response.headers.set('Retry-After', String(retryAfter));
+      return response;
+    }
+
+    for (const { key, rule } of keys) {
+      await env.DB.prepare('INSERT INTO rate_limit_hits (key, hit_at, expires_at) VALUES (?, ?, ?)')
+        .bind(key, now, now + rule.windowSeconds * 1000)
+        .run();
+    }
+  } catch (error) {
+    log('Rate limiter failed; allowing request', error);
+  }
 
-  await ensureColumn(db, 'subscriptions', 'created_at', 'TEXT');
-  await ensureColumn(db, 'subscriptions', 'updated_at', 'TEXT');
-  await ensureColumn(db, 'subscriptions', 'confirmed', 'INTEGER NOT NULL DEFAULT 0');
-  await ensureColumn(db, 'subscriptions', 'confirmation_token', 'TEXT');
-  await ensureColumn(db, 'subscriptions', 'token_created_at', 'TEXT');
-  await ensureColumn(db, 'profiles', 'password_hash', 'TEXT');
+  return null;
 }
 
 function buildConfirmationLink(
@@ -149,7 +610,200 @@ function buildConfirmationLink(
   return url.toString();
 }
 
-function htmlResponse(title: string, message: string, status: 'success' | 'error' | 'info' = 'info'): Response {
+function buildPasswordResetLink(requestUrl: string, configuredBaseUrl: string | undefined, token: string): string {
+  const base = configuredBaseUrl ?? new URL(requestUrl).origin;
+  const url = new URL('/reset-password.html', base);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+function confirmationTokenTtlMs(env: Env): number {
+  const hours = Number(env.CONFIRMATION_TOKEN_TTL_HOURS);
+  const ttlHours = Number.isFinite(hours) && hours > 0 ? hours : CONFIRMATION_TOKEN_TTL_HOURS_DEFAULT;
+  return ttlHours * 60 * 60 * 1000;
+}
+
+function isConfirmationTokenExpired(env: Env, tokenCreatedAt: string | null | undefined): boolean {
+  const createdAt = tokenCreatedAt ? Date.parse(tokenCreatedAt) : Number.NaN;
+  if (Number.isNaN(createdAt)) {
+    return true;
+  }
+
+  return Date.now() - createdAt > confirmationTokenTtlMs(env);
+}
+
+function resendConfirmationForm(email: string): string {
+  return `<form method="post" action="/api/confirm/resend">
+        <input type="hidden" name="email" value="${escapeHtml(email)}" />
+        <button type="submit">Send me a new link</button>
+      </form>`;
+}
+
+function unsubscribeSecret(env: Env): string | undefined {
+  return env.UNSUBSCRIBE_SECRET ?? env.SESSION_SECRET;
+}
+
+/**
+ * Unsubscribe tokens are an HMAC of the address, so a link keeps working
+ * for the life of the address and cannot be forged for someone else.
+ */
+async function buildUnsubscribeLink(env: Env, email: string): Promise<string | null> {
+  const secret = unsubscribeSecret(env);
+  if (!secret || !env.SITE_BASE_URL) {
+    return null;
+  }
+
+  const url = new URL('/unsubscribe', env.SITE_BASE_URL);
+  url.searchParams.set('email', email);
+  url.searchParams.set('token', await signValue(secret, `unsubscribe:${email}`));
+  return url.toString();
+}
+
+async function verifyUnsubscribeToken(env: Env, email: string, token: string): Promise<boolean> {
+  const secret = unsubscribeSecret(env);
+  if (!secret || !token) {
+    return false;
+  }
+
+  return timingSafeEqual(token, await signValue(secret, `unsubscribe:${email}`));
+}
+
+function unsubscribeForm(email: string, token: string): string {
+  const options = Object.entries(UNSUBSCRIBE_REASONS)
+    .map(([value, label]) => `<option value="${value}">${escapeHtml(label)}</option>`)
+    .join('');
+
+  return `<form method="post" action="/unsubscribe">
+        <input type="hidden" name="email" value="${escapeHtml(email)}" />
+        <input type="hidden" name="token" value="${escapeHtml(token)}" />
+        <select name="reason" aria-label="Why are you leaving?">${options}</select>
+        <button type="submit">Unsubscribe</button>
+      </form>`;
+}
+
+function resubscribeForm(email: string, token: string): string {
+  return `<form method="post" action="/unsubscribe">
+        <input type="hidden" name="email" value="${escapeHtml(email)}" />
+        <input type="hidden" name="token" value="${escapeHtml(token)}" />
+        <input type="hidden" name="action" value="resubscribe" />
+        <button type="submit">Changed your mind? Resubscribe</button>
+      </form>`;
+}
+
+/**
+ * IPs are keyed with a server secret before they are stored, so the column
+ * cannot be reversed by hashing every IPv4 address.
+ */
+async function hashIp(env: Env, ip: string): Promise<string> {
+  const secret = env.SESSION_SECRET ?? env.UNSUBSCRIBE_SECRET;
+  return secret ? signValue(secret, ip) : sha256Hex(ip);
+}
+
+/**
+ * Builds the audit row for a consent change. Callers batch it with the
+ * subscription update it describes so neither is written without the other.
+ * `request` is the subscriber's own request; changes made on their behalf,
+ * such as imports, pass null and record no IP or user agent.
+ */
+async function consentEventStatement(
+  request: Request | null,
+  env: Env,
+  email: string,
+  event: ConsentEventType,
+  source: string,
+  wordingVersion = CONSENT_WORDING_VERSION
+): Promise<D1PreparedStatement> {
+  const ip = request?.headers.get('CF-Connecting-IP');
+  return env.DB.prepare(
+    'INSERT INTO consent_events (email, event, ip_hash, user_agent, source, wording_version, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).bind(
+    email,
+    event,
+    ip ? await hashIp(env, ip) : null,
+    request?.headers.get('user-agent')?.slice(0, 512) ?? null,
+    source.slice(0, CONSENT_SOURCE_MAX_LENGTH),
+    wordingVersion,
+    new Date().toISOString()
+  );
+}
+
+/** The page the request was made from, or its own path when there is no usable Referer. */
+function requestSource(request: Request): string {
+  const referer = request.headers.get('referer');
+  if (referer) {
+    try {
+      return new URL(referer).pathname;
+    } catch {
+      // Fall through to the request path.
+    }
+  }
+
+  return new URL(request.url).pathname;
+}
+
+/**
+ * An address an account has used. `until` is when the account moved off it;
+ * anything kept under the address after that belongs to whoever holds it now.
+ */
+interface HeldAddress {
+  email: string;
+  until: string | null;
+}
+
+/**
+ * `email` and every address it replaced through a completed email change, so
+ * consent given under an earlier address still shows up.
+ */
+async function consentAddresses(env: Env, email: string): Promise<HeldAddress[]> {
+  const addresses: HeldAddress[] = [{ email, until: null }];
+  for (let index = 0; index < addresses.length; index += 1) {
+    const { email: address, until } = addresses[index];
+    const { results } = await env.DB.prepare(
+      'SELECT old_email, completed_at FROM email_changes WHERE new_email = ? AND completed_at IS NOT NULL AND (? IS NULL OR completed_at <= ?) ORDER BY completed_at DESC'
+    )
+      .bind(address, until, until)
+      .all<{ old_email: string; completed_at: string }>();
+
+    for (const { old_email, completed_at } of results) {
+      if (!addresses.some((held) => held.email === old_email)) {
+        addresses.push({ email: old_email, until: completed_at });
+      }
+    }
+  }
+
+  return addresses;
+}
+
+async function loadConsentHistory(env: Env, addresses: HeldAddress[]): Promise<ConsentEventRow[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT email, event, ip_hash, user_agent, source, wording_version, created_at FROM consent_events WHERE ${addresses
+      .map(() => '(email = ? AND (? IS NULL OR created_at <= ?))')
+      .join(' OR ')} ORDER BY id`
+  )
+    .bind(...addresses.flatMap(({ email, until }) => [email, until, until]))
+    .all<ConsentEventRow>();
+
+  return results;
+}
+
+function toConsentEventJson(row: ConsentEventRow): Record<string, unknown> {
+  return {
+    email: row.email,
+    event: row.event,
+    ipHash: row.ip_hash,
+    userAgent: row.user_agent,
+    source: row.source,
+    wordingVersion: row.wording_version,
+    createdAt: row.created_at,
+  };
+}
+
+function htmlResponse(
+  title: string,
+  message: string,
+  status: 'success' | 'error' | 'info' = 'info',
+  actionHtml = ''
+): Response {
   const accent =
     status === 'success' ? '#e7ffad' : status === 'error' ? '#ffdfdf' : 'rgba(255, 255, 255, 0.85)';
 
@@ -208,6 +862,34 @@ function htmlResponse(title: string, message: string, status: 'success' | 'error
         text-transform: uppercase;
         color: rgba(255, 255, 255, 0.8);
       }
+
+      form {
+        display: grid;
+        gap: 0.75rem;
+      }
+
+      select {
+        padding: 0.75rem 1rem;
+        border-radius: 12px;
+        border: none;
+        font-size: 1rem;
+      }
+
+      button,
+      .button {
+        box-sizing: border-box;
+        display: block;
+        width: 100%;
+        padding: 0.9rem 1.5rem;
+        border-radius: 12px;
+        border: none;
+        font-size: 1rem;
+        font-weight: 700;
+        cursor: pointer;
+        background: #2e5e4e;
+        color: #ffd85b;
+        text-decoration: none;
+      }
     </style>
   </head>
   <body>
@@ -215,6 +897,7 @@ function htmlResponse(title: string, message: string, status: 'success' | 'error
       <div class="logo">Solar Roots</div>
       <h1>${title}</h1>
       <p>${message}</p>
+      ${actionHtml}
     </main>
   </body>
 </html>`;
@@ -228,15 +911,9 @@ function htmlResponse(title: string, message: string, status: 'success' | 'error
 async function handleConfirmation(
   request: Request,
   env: Env,
+  ctx: ExecutionContext,
   log: (...args: unknown[]) => void
 ): Promise<Response> {
-  if (request.method !== 'GET') {
-    return new Response('Method Not Allowed', {
-      status: 405,
-      headers: { ...HTML_HEADERS, Allow: 'GET' },
-    });
-  }
-
   const url = new URL(request.url);
   const token = url.searchParams.get('token');
   const email = url.searchParams.get('email');
@@ -254,7 +931,7 @@ async function handleConfirmation(
     await ensureSchema(env.DB);
 
     const existing = await env.DB
-      .prepare('SELECT email, confirmed, confirmation_token FROM subscriptions WHERE email = ?')
+      .prepare('SELECT email, confirmed, confirmation_token, token_created_at FROM subscriptions WHERE email = ?')
       .bind(normalizedEmail)
       .first<SubscriptionRecord>();
 
@@ -267,99 +944,640 @@ async function handleConfirmation(
     }
 
     if (!existing.confirmation_token || existing.confirmation_token !== token) {
-      return htmlResponse('Confirmation Failed', 'This confirmation link is no longer valid. Please request a new one.', 'error');
+      return htmlResponse(
+        'Confirmation Failed',
+        'This confirmation link is no longer valid. Please request a new one.',
+        'error',
+        resendConfirmationForm(normalizedEmail)
+      );
+    }
+
+    if (isConfirmationTokenExpired(env, existing.token_created_at)) {
+      return htmlResponse(
+        'This link has expired',
+        'Confirmation links only work for a limited time. We can send you a fresh one.',
+        'error',
+        resendConfirmationForm(normalizedEmail)
+      );
     }
 
     const now = new Date().toISOString();
-    await env.DB
-      .prepare(
-        'UPDATE subscriptions SET confirmed = 1, confirmation_token = NULL, updated_at = ?, token_created_at = NULL WHERE email = ?'
-      )
-      .bind(now, normalizedEmail)
-      .run();
+    await env.DB.batch([
+      env.DB
+        .prepare(
+          'UPDATE subscriptions SET confirmed = 1, confirmation_token = NULL, updated_at = ?, token_created_at = NULL WHERE email = ?'
+        )
+        .bind(now, normalizedEmail),
+      await consentEventStatement(request, env, normalizedEmail, 'confirm', url.pathname),
+    ]);
+
+    // The subscription is already confirmed, so neither a missing setup link
+    // nor a missing welcome email should fail the page.
+    const setupLink = await issueProfileSetupLink(request, env, normalizedEmail).catch((error) => {
+      log('Failed to issue profile setup link', error);
+      return null;
+    });
+    await queueWelcomeEmail(env, ctx, normalizedEmail, setupLink, log).catch((error) => {
+      log('Failed to queue welcome email', error);
+    });
 
-    return htmlResponse('You’re all set!', 'Your email has been confirmed. Thanks for joining Solar Roots!', 'success');
+    return htmlResponse(
+      'You’re all set!',
+      'Your email has been confirmed. Thanks for joining Solar Roots!',
+      'success',
+      setupLink ? `<a class="button" href="${escapeHtml(setupLink)}">Create your profile</a>` : ''
+    );
   } catch (error) {
     log('Confirmation handler failed', error);
     return htmlResponse('Confirmation Failed', 'Something went wrong on our end. Please try again later.', 'error');
   }
 }
 
-async function sendConfirmationEmail(
+function isFormPost(request: Request): boolean {
+  return (request.headers.get('content-type') ?? '').includes('application/x-www-form-urlencoded');
+}
+
+// The expired-link page posts a plain HTML form to the resend route, so that
+// path validates the same schema but answers with a page rather than JSON.
+async function handleConfirmationResendForm(
+  request: Request,
   env: Env,
-  recipient: string,
-  link: string,
+  ctx: ExecutionContext,
   log: (...args: unknown[]) => void
-): Promise<void> {
-  await sendWithMailChannels(env, recipient, link, log);
+): Promise<Response> {
+  const form = await request.formData().catch(() => null);
+  const result = validateBody(EMAIL_BODY, { email: form?.get('email') });
+  if (!result.ok) {
+    return htmlResponse('We could not resend that link', result.fields.email.message, 'error');
+  }
+
+  return handleConfirmationResend(request, env, ctx, result.values, true, log);
 }
 
-async function sendWithMailChannels(
+async function handleConfirmationResend(
+  request: Request,
   env: Env,
-  recipient: string,
-  link: string,
+  ctx: ExecutionContext,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  isForm: boolean,
   log: (...args: unknown[]) => void
-): Promise<void> {
-  const fromEmail = env.MAIL_FROM_EMAIL ?? 'noreply@example.com';
-  const fromName = env.MAIL_FROM_NAME ?? 'Solar Roots';
-
-  const personalization: Record<string, unknown> = {
-    to: [{ email: recipient }],
+): Promise<Response> {
+  const reply = (success: boolean, message: string, status: number, headers: Record<string, string> = {}) => {
+    const response = isForm
+      ? htmlResponse(success ? 'Check your inbox' : 'We could not resend that link', message, success ? 'success' : 'error')
+      : jsonResponse(success ? { success, message } : { success, error: message }, status);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
   };
 
-  if (env.MAILCHANNELS_DOMAIN) {
-    personalization['dkim_domain'] = env.MAILCHANNELS_DOMAIN;
+  try {
+    await ensureSchema(env.DB);
+
+    const existing = await env.DB
+      .prepare(
+        'SELECT email, confirmed, confirmation_token, token_created_at, unsubscribed_at FROM subscriptions WHERE email = ?'
+      )
+      .bind(email)
+      .first<SubscriptionRecord>();
+
+    if (existing?.confirmed) {
+      return reply(true, 'Email is already confirmed.', 200);
+    }
+
+    if (existing && !existing.unsubscribed_at) {
+      const lastSentAt = existing.token_created_at ? Date.parse(existing.token_created_at) : Number.NaN;
+      const elapsedSeconds = Number.isNaN(lastSentAt) ? Infinity : (Date.now() - lastSentAt) / 1000;
+      if (elapsedSeconds < CONFIRMATION_RESEND_COOLDOWN_SECONDS) {
+        const retryAfter = Math.ceil(CONFIRMATION_RESEND_COOLDOWN_SECONDS - elapsedSeconds);
+        return reply(false, 'A confirmation email was sent recently. Please wait a few minutes before trying again.', 429, {
+          'retry-after': String(retryAfter),
+        });
+      }
+
+      const now = new Date().toISOString();
+      const token = crypto.randomUUID();
+      await env.DB
+        .prepare('UPDATE subscriptions SET confirmation_token = ?, token_created_at = ?, updated_at = ? WHERE email = ?')
+        .bind(token, now, now, email)
+        .run();
+
+      const confirmationLink = buildConfirmationLink(request.url, env.SITE_BASE_URL, email, token);
+      await queueConfirmationEmail(env, ctx, email, confirmationLink, log);
+    }
+
+    // Unknown addresses get the same answer so this cannot be used to probe the list.
+    return reply(true, 'If that email is on our list, a new confirmation link is on its way.', 202);
+  } catch (error) {
+    log('Confirmation resend handler failed', error);
+    return reply(false, 'Internal Server Error', 500);
   }
+}
+
+async function handleUnsubscribe(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const url = new URL(request.url);
+  const form = request.method === 'POST' ? await request.formData().catch(() => null) : null;
+  const field = (name: string) => {
+    const value = form?.get(name) ?? url.searchParams.get(name);
+    return typeof value === 'string' ? value : '';
+  };
+
+  const email = normalizeEmail(field('email'));
+  const token = field('token').trim();
 
-  if (env.MAILCHANNELS_SUBDOMAIN) {
-    personalization['dkim_selector'] = env.MAILCHANNELS_SUBDOMAIN;
+  if (!isValidEmail(email) || !(await verifyUnsubscribeToken(env, email, token))) {
+    return htmlResponse('Unsubscribe Failed', 'This unsubscribe link is not valid. Please use the link from one of our emails.', 'error');
   }
 
-  const response = await fetch('https://api.mailchannels.net/tx/v1/send', {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({
-      personalizations: [personalization],
-      from: { email: fromEmail, name: fromName },
-      subject: 'Confirm your Solar Roots subscription',
-      content: [
-        {
-          type: 'text/plain',
-          value: `Thanks for subscribing to Solar Roots! Confirm your email by visiting: ${link}`,
-        },
-        {
-          type: 'text/html',
-          value: `<p>Thanks for subscribing to Solar Roots!</p><p><a href="${link}">Click here to confirm your email address</a>.</p>`,
-        },
-      ],
-    }),
+  try {
+    await ensureSchema(env.DB);
+
+    const existing = await env.DB
+      .prepare('SELECT email, confirmed, unsubscribed_at FROM subscriptions WHERE email = ?')
+      .bind(email)
+      .first<SubscriptionRecord>();
+
+    // A GET only shows the choice: mail scanners prefetch links, and
+    // RFC 8058 one-click unsubscribes always arrive as a POST.
+    if (request.method === 'GET') {
+      if (!existing || existing.unsubscribed_at) {
+        return htmlResponse(
+          'You’re unsubscribed',
+          'You will not receive any more emails from Solar Roots.',
+          'success',
+          existing ? resubscribeForm(email, token) : ''
+        );
+      }
+
+      return htmlResponse(
+        'Leave the Solar Roots list?',
+        'We are sorry to see you go. Let us know why and we will stop emailing you.',
+        'info',
+        unsubscribeForm(email, token)
+      );
+    }
+
+    const now = new Date().toISOString();
+
+    if (field('action') === 'resubscribe') {
+      if (existing?.unsubscribed_at) {
+        await env.DB.batch([
+          env.DB
+            .prepare('UPDATE subscriptions SET unsubscribed_at = NULL, unsubscribe_reason = NULL, updated_at = ? WHERE email = ?')
+            .bind(now, email),
+          await consentEventStatement(request, env, email, 'resubscribe', url.pathname),
+        ]);
+      }
+
+      return htmlResponse('Welcome back!', 'You are back on the Solar Roots list.', 'success');
+    }
+
+    if (existing && !existing.unsubscribed_at) {
+      const oneClick = field('List-Unsubscribe') === 'One-Click';
+      const requestedReason = field('reason');
+      const reason = oneClick ? 'one_click' : requestedReason in UNSUBSCRIBE_REASONS ? requestedReason : 'unspecified';
+
+      await env.DB.batch([
+        env.DB
+          .prepare(
+            'UPDATE subscriptions SET unsubscribed_at = ?, unsubscribe_reason = ?, confirmation_token = NULL, token_created_at = NULL, updated_at = ? WHERE email = ?'
+          )
+          .bind(now, reason, now, email),
+        await consentEventStatement(request, env, email, 'unsubscribe', oneClick ? 'list-unsubscribe' : url.pathname),
+      ]);
+    }
+
+    return htmlResponse(
+      'You’re unsubscribed',
+      'You will not receive any more emails from Solar Roots.',
+      'success',
+      existing ? resubscribeForm(email, token) : ''
+    );
+  } catch (error) {
+    log('Unsubscribe handler failed', error);
+    return htmlResponse('Unsubscribe Failed', 'Something went wrong on our end. Please try again later.', 'error');
+  }
+}
+
+async function queueLockoutEmail(
+  env: Env,
+  ctx: ExecutionContext,
+  recipient: string,
+  lockedUntil: string,
+  resetLink: string | null,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  const message = renderEmail('accountLocked', {
+    attempts: LOGIN_LOCKOUT_THRESHOLD,
+    until: new Date(lockedUntil).toUTCString(),
+    resetLink: resetLink ?? undefined,
   });
+  await queueEmail(env, ctx, recipient, message, log);
+}
+
+async function queueConfirmationEmail(
+  env: Env,
+  ctx: ExecutionContext,
+  recipient: string,
+  link: string,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  await queueEmail(env, ctx, recipient, renderEmail('confirmation', { link }), log);
+}
+
+async function queueWelcomeEmail(
+  env: Env,
+  ctx: ExecutionContext,
+  recipient: string,
+  profileLink: string | null,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  await queueEmail(env, ctx, recipient, renderEmail('welcome', { profileLink: profileLink ?? undefined }), log);
+}
+
+async function queuePasswordResetEmail(
+  env: Env,
+  ctx: ExecutionContext,
+  recipient: string,
+  link: string,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  await queueEmail(env, ctx, recipient, renderEmail('passwordReset', { link }), log);
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    log('MailChannels error', response.status, errorText);
-    throw new Error(`MailChannels request failed with status ${response.status}`);
+async function buildOutgoingEmail(
+  env: Env,
+  recipient: string,
+  message: RenderedEmail,
+  log: (...args: unknown[]) => void
+): Promise<OutgoingEmail> {
+  const headers: Record<string, string> = {};
+  const unsubscribeLink = await buildUnsubscribeLink(env, recipient);
+  if (unsubscribeLink) {
+    headers['List-Unsubscribe'] = `<${unsubscribeLink}>`;
+    headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click';
+  } else {
+    log('Sending email without List-Unsubscribe headers; SITE_BASE_URL or an unsubscribe secret is missing');
   }
+
+  return { to: recipient, ...message, headers };
+}
+
+/**
+ * Stores the message in the outbox, then tries it straight away in the
+ * background. Anything that attempt does not deliver is retried by the cron.
+ */
+async function queueEmail(
+  env: Env,
+  ctx: ExecutionContext,
+  recipient: string,
+  message: RenderedEmail,
+  log: (...args: unknown[]) => void
+): Promise<void> {
+  const outgoing = await buildOutgoingEmail(env, recipient, message, log);
+  const id = await enqueueEmail(env.DB, outgoing);
+  ctx.waitUntil(
+    deliverQueuedEmail(env, id, outgoing, 0, log).catch((error) => {
+      log('Inline email delivery failed', error);
+    })
+  );
 }
 
 function jsonResponse(body: Record<string, unknown>, status: number): Response {
   return new Response(JSON.stringify(body), {
     status,
-    headers: { ...JSON_HEADERS, ...CORS_HEADERS },
+    headers: JSON_HEADERS,
   });
 }
 
-async function handleSubscriptionCheck(request: Request, env: Env, log: (...args: unknown[]) => void): Promise<Response> {
-  const payload = await parseJson(request, log);
-  if (!payload || typeof payload.email !== 'string') {
-    return jsonResponse({ success: false, error: 'Invalid request.' }, 400);
+function validationErrorResponse(fields: Record<string, FieldError>): Response {
+  return jsonResponse(
+    { success: false, error: Object.values(fields)[0].message, code: 'validation_failed', fields },
+    400
+  );
+}
+
+function parseCookies(request: Request): Record<string, string> {
+  const header = request.headers.get('cookie');
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
   }
 
-  const email = payload.email.trim().toLowerCase();
-  if (!isValidEmail(email)) {
-    return jsonResponse({ success: false, error: 'Invalid email address.' }, 400);
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (name && !(name in cookies)) {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+function buildSessionCookie(role: SessionRole, value: string, maxAgeSeconds: number): string {
+  const sameSite = role === 'admin' ? 'Strict' : 'Lax';
+  return `${SESSION_COOKIES[role]}=${value}; Path=/; HttpOnly; Secure; SameSite=${sameSite}; Max-Age=${maxAgeSeconds}`;
+}
+
+function toUserSession(record: SessionRecord): UserSession {
+  return {
+    id: record.id,
+    email: record.email,
+    role: record.role,
+    createdAt: record.created_at,
+    expiresAt: record.expires_at,
+  };
+}
+
+/**
+ * Returns the session id carried by the request cookie for the role, or null
+ * when the cookie is missing or its signature does not match.
+ */
+async function readSessionId(request: Request, env: Env, role: SessionRole): Promise<string | null> {
+  const raw = parseCookies(request)[SESSION_COOKIES[role]];
+  if (!raw || !env.SESSION_SECRET) {
+    return null;
+  }
+
+  const [id, signature] = raw.split('.');
+  if (!id || !signature) {
+    return null;
+  }
+
+  const expected = await signValue(env.SESSION_SECRET, id);
+  return timingSafeEqual(signature, expected) ? id : null;
+}
+
+async function loadSession(request: Request, env: Env, role: SessionRole): Promise<SessionRecord | null> {
+  const id = await readSessionId(request, env, role);
+  if (!id) {
+    return null;
+  }
+
+  return env.DB
+    .prepare('SELECT id, email, role, created_at, expires_at FROM sessions WHERE id = ? AND role = ? AND expires_at > ?')
+    .bind(id, role, new Date().toISOString())
+    .first<SessionRecord>();
+}
+
+/**
+ * Stores a new session for the email and returns it together with the
+ * Set-Cookie header value that hands it to the browser.
+ */
+async function createSession(
+  env: Env,
+  email: string,
+  role: SessionRole
+): Promise<{ session: UserSession; cookie: string }> {
+  if (!env.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const now = new Date();
+  const createdAt = now.toISOString();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_SECONDS[role] * 1000).toISOString();
+  const id = generateToken();
+
+  await env.DB.prepare('DELETE FROM sessions WHERE email = ? AND expires_at <= ?').bind(email, createdAt).run();
+  await env.DB
+    .prepare('INSERT INTO sessions (id, email, role, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(id, email, role, createdAt, expiresAt)
+    .run();
+
+  const signature = await signValue(env.SESSION_SECRET, id);
+  return {
+    session: { id, email, role, createdAt, expiresAt },
+    cookie: buildSessionCookie(role, `${id}.${signature}`, SESSION_TTL_SECONDS[role]),
+  };
+}
+
+async function revokeSession(env: Env, id: string): Promise<void> {
+  await env.DB.prepare('DELETE FROM sessions WHERE id = ?').bind(id).run();
+}
+
+/**
+ * Issues a single-use token that proves whoever presents it can read mail
+ * sent to `email`. Any unused token for the same purpose is replaced, and
+ * only the token's hash is stored.
+ */
+async function issueEmailToken(
+  env: Env,
+  purpose: EmailTokenPurpose,
+  email: string,
+  ttlSeconds: number
+): Promise<string> {
+  const now = new Date();
+  const token = generateToken();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+
+  await env.DB.prepare('DELETE FROM email_tokens WHERE email = ? AND purpose = ? AND used_at IS NULL')
+    .bind(email, purpose)
+    .run();
+  await env.DB.prepare(
+    'INSERT INTO email_tokens (token_hash, purpose, email, created_at, expires_at) VALUES (?, ?, ?, ?, ?)'
+  )
+    .bind(await sha256Hex(token), purpose, email, now.toISOString(), expiresAt)
+    .run();
+
+  return token;
+}
+
+/** Returns the email a live token was issued to, without using it up. */
+async function findEmailToken(env: Env, purpose: EmailTokenPurpose, token: string): Promise<string | null> {
+  const record = await env.DB.prepare(
+    'SELECT email FROM email_tokens WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?'
+  )
+    .bind(await sha256Hex(token), purpose, new Date().toISOString())
+    .first<{ email: string }>();
+
+  return record?.email ?? null;
+}
+
+/** Marks a token used. Only one of several racing requests gets true. */
+async function claimEmailToken(env: Env, purpose: EmailTokenPurpose, token: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const claimed = await env.DB.prepare(
+    'UPDATE email_tokens SET used_at = ? WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?'
+  )
+    .bind(now, await sha256Hex(token), purpose, now)
+    .run<{ meta?: { changes?: number } }>();
+
+  return claimed?.meta?.changes === 1;
+}
+
+/**
+ * Returns a link that lets the owner of `email` create their profile, or
+ * null when they already have one.
+ */
+async function issueProfileSetupLink(request: Request, env: Env, email: string): Promise<string | null> {
+  const profile = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(email).first();
+  if (profile) {
+    return null;
+  }
+
+  const token = await issueEmailToken(env, 'profile_setup', email, PROFILE_SETUP_TTL_SECONDS);
+  const link = new URL('/signup.html', env.SITE_BASE_URL ?? new URL(request.url).origin);
+  link.searchParams.set('token', token);
+  return link.toString();
+}
+
+async function recordLoginAttempt(
+  request: Request,
+  env: Env,
+  email: string,
+  role: SessionRole,
+  outcome: LoginOutcome,
+  at: string
+): Promise<void> {
+  await env.DB.prepare(
+    'INSERT INTO login_attempts (email, role, outcome, ip, user_agent, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+  )
+    .bind(
+      email,
+      role,
+      outcome,
+      request.headers.get('CF-Connecting-IP'),
+      request.headers.get('user-agent')?.slice(0, 512) ?? null,
+      at
+    )
+    .run();
+}
+
+async function findActiveLockout(env: Env, email: string, role: SessionRole): Promise<string | null> {
+  const lockout = await env.DB.prepare(
+    'SELECT locked_until FROM account_lockouts WHERE email = ? AND role = ? AND unlocked_at IS NULL AND locked_until > ? ORDER BY locked_until DESC LIMIT 1'
+  )
+    .bind(email, role, new Date().toISOString())
+    .first<{ locked_until: string }>();
+
+  return lockout?.locked_until ?? null;
+}
+
+/**
+ * Records a failed attempt and locks the account once enough failures land
+ * inside the window. Failures before the last success, lockout or unlock do
+ * not count. Returns the new lock expiry when this failure caused one.
+ */
+async function recordLoginFailure(
+  request: Request,
+  env: Env,
+  email: string,
+  role: SessionRole
+): Promise<string | null> {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  await recordLoginAttempt(request, env, email, role, 'failure', nowIso);
+
+  const windowStart = new Date(now.getTime() - LOGIN_FAILURE_WINDOW_SECONDS * 1000).toISOString();
+  const counted = await env.DB.prepare(
+    `SELECT COUNT(*) AS failures FROM login_attempts
+     WHERE email = ? AND role = ? AND outcome = 'failure' AND created_at > ?
+       AND created_at > COALESCE((SELECT MAX(created_at) FROM login_attempts WHERE email = ? AND role = ? AND outcome = 'success'), '')
+       AND created_at > COALESCE((SELECT MAX(COALESCE(unlocked_at, locked_at)) FROM account_lockouts WHERE email = ? AND role = ?), '')`
+  )
+    .bind(email, role, windowStart, email, role, email, role)
+    .first<{ failures: number }>();
+
+  if ((counted?.failures ?? 0) < LOGIN_LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  const lockedUntil = new Date(now.getTime() + LOGIN_LOCKOUT_SECONDS * 1000).toISOString();
+  await env.DB.prepare('INSERT INTO account_lockouts (email, role, locked_at, locked_until) VALUES (?, ?, ?, ?)')
+    .bind(email, role, nowIso, lockedUntil)
+    .run();
+
+  return lockedUntil;
+}
+
+function lockedResponse(lockedUntil: string): Response {
+  const retryAfter = Math.max(1, Math.ceil((Date.parse(lockedUntil) - Date.now()) / 1000));
+  const response = jsonResponse(
+    { success: false, error: 'Too many failed sign-in attempts. Please try again later.', lockedUntil },
+    423
+  );
+  response.headers.set('Retry-After', String(retryAfter));
+  return response;
+}
+
+/**
+ * Wraps a handler so it only runs for requests that carry a valid member
+ * session. Sessions older than the rotation interval are swapped for a fresh
+ * id before the handler runs, and the new cookie is attached to its response.
+ */
+function requireSession(handler: SessionHandler) {
+  return async (request: Request, env: Env, log: (...args: unknown[]) => void): Promise<Response> => {
+    let record: SessionRecord | null;
+    try {
+      await ensureSchema(env.DB);
+      record = await loadSession(request, env, 'member');
+    } catch (error) {
+      log('Session lookup failed', error);
+      return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+    }
+
+    if (!record) {
+      const response = jsonResponse({ success: false, error: 'Authentication required.' }, 401);
+      response.headers.append('set-cookie', buildSessionCookie('member', '', 0));
+      return response;
+    }
+
+    let session = toUserSession(record);
+    let rotatedCookie: string | null = null;
+
+    if (Date.now() - Date.parse(record.created_at) > SESSION_ROTATION_SECONDS * 1000) {
+      try {
+        const rotated = await createSession(env, record.email, 'member');
+        await revokeSession(env, record.id);
+        session = rotated.session;
+        rotatedCookie = rotated.cookie;
+      } catch (error) {
+        log('Session rotation failed', error);
+      }
+    }
+
+    const response = await handler(request, env, session, log);
+    if (rotatedCookie) {
+      response.headers.append('set-cookie', rotatedCookie);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Resolves the admin session for the request. Admin sessions are short-lived
+ * and never rotated; once they expire the admin has to log in again.
+ */
+async function loadAdminSession(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<UserSession | null> {
+  // No schema check here: the sessions table predates every migration that
+  // can still be pending, and a failing migration must not sign the admin out
+  // of the page that reports and retries it.
+  try {
+    const record = await loadSession(request, env, 'admin');
+    return record ? toUserSession(record) : null;
+  } catch (error) {
+    log('Admin session lookup failed', error);
+    return null;
   }
+}
 
+async function handleSubscriptionCheck(env: Env, { email }: SchemaValues<typeof EMAIL_BODY>): Promise<Response> {
   await ensureSchema(env.DB);
   const existing = await env.DB
     .prepare('SELECT email FROM subscriptions WHERE email = ?')
@@ -376,211 +1594,2320 @@ async function handleSubscriptionCheck(request: Request, env: Env, log: (...args
   );
 }
 
+/**
+ * Creating a profile needs the setup token from the confirmation page or the
+ * welcome email, which proves the caller can read mail sent to the address.
+ * After that the profile only changes from a signed-in session, and a new
+ * password there also needs the current one.
+ */
 async function handleProfile(
   request: Request,
   env: Env,
+  body: SchemaValues<typeof PROFILE_BODY>,
   log: (...args: unknown[]) => void
 ): Promise<Response> {
-  if (request.method !== 'POST') {
-    return new Response('Method Not Allowed', {
-      status: 405,
-      headers: { ...CORS_HEADERS, Allow: 'POST,OPTIONS' },
-    });
+  try {
+    await ensureSchema(env.DB);
+
+    const session = await loadSession(request, env, 'member');
+    if (session) {
+      return await updateOwnProfile(env, session, body);
+    }
+
+    if (!body.token) {
+      return jsonResponse(
+        { success: false, error: 'Sign in to change your profile, or use the link from your welcome email to create one.' },
+        401
+      );
+    }
+
+    return await createProfileFromToken(env, body.token, body);
+  } catch (error) {
+    log('Profile handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
   }
+}
+
+async function createProfileFromToken(
+  env: Env,
+  token: string,
+  { name, bio, password }: SchemaValues<typeof PROFILE_BODY>
+): Promise<Response> {
+  const invalidToken = () =>
+    validationErrorResponse({
+      token: { code: 'invalid_token', message: 'This profile link is invalid or has expired. Please request a new one.' },
+    });
 
-  const payload = await parseJson(request, log);
-  if (!payload) {
-    return jsonResponse({ success: false, error: 'Invalid JSON body.' }, 400);
+  const email = await findEmailToken(env, 'profile_setup', token);
+  if (!email) {
+    return invalidToken();
   }
 
-  const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : '';
-  const name = typeof payload.name === 'string' ? payload.name.trim() : '';
-  const password = typeof payload.password === 'string' ? payload.password : '';
-  const bio = typeof payload.bio === 'string' ? payload.bio.trim() : '';
+  const existingProfile = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(email).first();
+  if (existingProfile) {
+    return jsonResponse({ success: false, error: 'A profile already exists for this email. Sign in to change it.' }, 409);
+  }
 
-  if (!isValidEmail(email)) {
-    return jsonResponse({ success: false, error: 'Invalid email address.' }, 400);
+  if (!password) {
+    return validationErrorResponse({ password: { code: 'required', message: 'Password is required to create a profile.' } });
   }
 
-  if (!name) {
-    return jsonResponse({ success: false, error: 'Name is required.' }, 400);
+  if (!(await claimEmailToken(env, 'profile_setup', token))) {
+    return invalidToken();
   }
 
-  if (!bio) {
-    return jsonResponse({ success: false, error: 'Bio is required.' }, 400);
+  const now = new Date().toISOString();
+  const created = await env.DB.prepare(
+    'INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(email) DO NOTHING'
+  )
+    .bind(email, name, bio, await hashPassword(password), now, now)
+    .run<{ meta?: { changes?: number } }>();
+
+  if (created?.meta?.changes === 0) {
+    return jsonResponse({ success: false, error: 'A profile already exists for this email. Sign in to change it.' }, 409);
   }
 
-  try {
-    await ensureSchema(env.DB);
-    const existing = await env.DB
-      .prepare('SELECT email FROM subscriptions WHERE email = ?')
-      .bind(email)
-      .first();
+  return jsonResponse({ success: true, message: 'Profile saved successfully.' }, 200);
+}
 
-    if (!existing) {
-      return jsonResponse({ success: false, error: 'Email not found in subscriptions.' }, 404);
+async function updateOwnProfile(
+  env: Env,
+  session: SessionRecord,
+  { name, bio, password, currentPassword }: SchemaValues<typeof PROFILE_BODY>
+): Promise<Response> {
+  const profile = await env.DB.prepare('SELECT password_hash FROM profiles WHERE email = ?')
+    .bind(session.email)
+    .first<{ password_hash: string | null }>();
+
+  if (!profile) {
+    return jsonResponse({ success: false, error: 'Profile not found.' }, 404);
+  }
+
+  let passwordHash: string | null = null;
+  if (password) {
+    if (!(await checkCurrentPassword(profile.password_hash, currentPassword))) {
+      return validationErrorResponse(INCORRECT_CURRENT_PASSWORD);
     }
 
-    const existingProfile = await env.DB
-      .prepare('SELECT password_hash FROM profiles WHERE email = ?')
-      .bind(email)
-      .first<{ password_hash: string | null }>();
+    passwordHash = await hashPassword(password);
+  }
+
+  const now = new Date().toISOString();
+  await env.DB.prepare(
+    'UPDATE profiles SET name = ?, bio = ?, password_hash = COALESCE(?, password_hash), updated_at = ? WHERE email = ?'
+  )
+    .bind(name, bio, passwordHash, now, session.email)
+    .run();
+
+  if (passwordHash) {
+    // Other devices signed in with the old password have to sign in again.
+    await env.DB.prepare("DELETE FROM sessions WHERE email = ? AND role = 'member' AND id != ?")
+      .bind(session.email, session.id)
+      .run();
+    await cancelEmailChange(env, session.email);
+  }
+
+  return jsonResponse({ success: true, message: 'Profile updated successfully.' }, 200);
+}
+
+/** Profiles from before passwords were required have nothing to check. */
+async function checkCurrentPassword(passwordHash: string | null, currentPassword: string | undefined): Promise<boolean> {
+  if (!passwordHash) {
+    return true;
+  }
+
+  return !!currentPassword && (await verifyPassword(currentPassword, passwordHash)).valid;
+}
+
+/**
+ * Starts moving the member's account to a new address. Nothing changes until
+ * the link sent to the new address is confirmed; the old address is told
+ * about the request so a hijacked session cannot move the account quietly.
+ */
+async function handleEmailChangeRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  session: UserSession,
+  { email, currentPassword }: SchemaValues<typeof EMAIL_CHANGE_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  if (email === session.email) {
+    return validationErrorResponse({ email: { code: 'unchanged', message: 'That is already your email address.' } });
+  }
+
+  try {
+    const profile = await env.DB.prepare('SELECT password_hash FROM profiles WHERE email = ?')
+      .bind(session.email)
+      .first<{ password_hash: string | null }>();
+
+    if (!profile) {
+      return jsonResponse({ success: false, error: 'Profile not found.' }, 404);
+    }
+
+    if (!(await checkCurrentPassword(profile.password_hash, currentPassword))) {
+      return validationErrorResponse(INCORRECT_CURRENT_PASSWORD);
+    }
+
+    const taken = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(email).first();
+    if (taken) {
+      return jsonResponse({ success: false, error: 'That email address is already used by another account.' }, 409);
+    }
+
+    await cancelEmailChange(env, session.email);
+    await env.DB.prepare('INSERT INTO email_changes (old_email, new_email, requested_at) VALUES (?, ?, ?)')
+      .bind(session.email, email, new Date().toISOString())
+      .run();
+
+    // The token is keyed on the current address, so a newer request for the
+    // same account replaces it.
+    const token = await issueEmailToken(env, 'email_change', session.email, EMAIL_CHANGE_TTL_SECONDS);
+    const base = env.SITE_BASE_URL ?? new URL(request.url).origin;
+    const link = new URL('/profile/email/verify', base);
+    link.searchParams.set('token', token);
+
+    await queueEmail(env, ctx, email, renderEmail('emailChangeVerify', { link: link.toString() }), log);
+    await queueEmail(
+      env,
+      ctx,
+      session.email,
+      renderEmail('emailChangeNotice', { newEmail: email, resetLink: new URL('/reset-password.html', base).toString() }),
+      log
+    );
+
+    return jsonResponse(
+      { success: true, message: `We sent a link to ${email}. Your address changes once you open it.` },
+      202
+    );
+  } catch (error) {
+    log('Email change request handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+/** Withdraws any unconfirmed address change for the account. */
+async function cancelEmailChange(env: Env, email: string): Promise<void> {
+  await env.DB.prepare(
+    'UPDATE email_changes SET cancelled_at = ? WHERE old_email = ? AND completed_at IS NULL AND cancelled_at IS NULL'
+  )
+    .bind(new Date().toISOString(), email)
+    .run();
+  await env.DB.prepare("DELETE FROM email_tokens WHERE email = ? AND purpose = 'email_change' AND used_at IS NULL")
+    .bind(email)
+    .run();
+}
+
+function emailChangeForm(token: string): string {
+  return `<form method="post" action="/profile/email/verify">
+        <input type="hidden" name="token" value="${escapeHtml(token)}" />
+        <button type="submit">Use this address</button>
+      </form>`;
+}
+
+/**
+ * Like sign-in links, opening the verification link only shows a button so
+ * that mail scanners cannot complete the change on their own.
+ */
+async function handleEmailChangeVerify(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const form = request.method === 'POST' ? await request.formData().catch(() => null) : null;
+  const rawToken = form ? form.get('token') : new URL(request.url).searchParams.get('token');
+  const token = typeof rawToken === 'string' ? rawToken.trim() : '';
+
+  const invalidLink = () =>
+    htmlResponse(
+      'Email Change Failed',
+      'This link is invalid or has expired. Please sign in and request the change again.',
+      'error'
+    );
+
+  if (!token) {
+    return invalidLink();
+  }
+
+  try {
+    await ensureSchema(env.DB);
+
+    const oldEmail = await findEmailToken(env, 'email_change', token);
+    const change = oldEmail
+      ? await env.DB.prepare(
+          'SELECT id, new_email FROM email_changes WHERE old_email = ? AND completed_at IS NULL AND cancelled_at IS NULL ORDER BY id DESC LIMIT 1'
+        )
+          .bind(oldEmail)
+          .first<{ id: number; new_email: string }>()
+      : null;
+
+    if (!oldEmail || !change) {
+      return invalidLink();
+    }
+
+    if (request.method === 'GET') {
+      return htmlResponse(
+        'Confirm your new email address',
+        `Move your Solar Roots account from ${escapeHtml(oldEmail)} to ${escapeHtml(change.new_email)}?`,
+        'info',
+        emailChangeForm(token)
+      );
+    }
+
+    const taken = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(change.new_email).first();
+    if (taken) {
+      return htmlResponse('Email Change Failed', 'That email address is already used by another account.', 'error');
+    }
+
+    if (!(await claimEmailToken(env, 'email_change', token))) {
+      return invalidLink();
+    }
+
+    await moveAccount(request, env, change.id, oldEmail, change.new_email);
+
+    return htmlResponse(
+      'Email address updated',
+      `Your Solar Roots account now uses ${escapeHtml(change.new_email)}.`,
+      'success',
+      '<a class="button" href="/login.html">Go to your account</a>'
+    );
+  } catch (error) {
+    log('Email change verification failed', error);
+    return htmlResponse('Email Change Failed', 'Something went wrong on our end. Please try again later.', 'error');
+  }
+}
+
+/**
+ * Re-keys the member's subscription, profile and sessions to the new address
+ * in one transaction, so a failure leaves the account untouched. The
+ * subscription keeps its list preferences and the earlier sign-up date of
+ * the two addresses, should the new one already be on the list; login history
+ * stays under the old address and `email_changes` links the two.
+ */
+async function moveAccount(
+  request: Request,
+  env: Env,
+  changeId: number,
+  oldEmail: string,
+  newEmail: string
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  // Following the verification link is the new address's opt-in, so an
+  // active subscription gets a confirm event under it.
+  const subscription = await env.DB.prepare('SELECT unsubscribed_at FROM subscriptions WHERE email = ?')
+    .bind(oldEmail)
+    .first<{ unsubscribed_at: string | null }>();
+  const consent =
+    subscription && !subscription.unsubscribed_at
+      ? [await consentEventStatement(request, env, newEmail, 'confirm', new URL(request.url).pathname)]
+      : [];
+
+  await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO subscriptions (email, created_at, updated_at, confirmed, unsubscribed_at, unsubscribe_reason)
+       SELECT ?, created_at, ?, 1, unsubscribed_at, unsubscribe_reason FROM subscriptions WHERE email = ?
+       ON CONFLICT(email) DO UPDATE SET confirmed = 1, confirmation_token = NULL, token_created_at = NULL,
+         unsubscribed_at = excluded.unsubscribed_at, unsubscribe_reason = excluded.unsubscribe_reason,
+         created_at = MIN(subscriptions.created_at, excluded.created_at), updated_at = excluded.updated_at`
+    ).bind(newEmail, now, oldEmail),
+    env.DB.prepare('UPDATE profiles SET email = ?, updated_at = ? WHERE email = ?').bind(newEmail, now, oldEmail),
+    env.DB.prepare("UPDATE sessions SET email = ? WHERE email = ? AND role = 'member'").bind(newEmail, oldEmail),
+    env.DB.prepare('DELETE FROM subscriptions WHERE email = ?').bind(oldEmail),
+    env.DB.prepare('DELETE FROM email_tokens WHERE email = ? AND used_at IS NULL').bind(oldEmail),
+    env.DB.prepare('DELETE FROM password_resets WHERE email = ? AND used_at IS NULL').bind(oldEmail),
+    env.DB.prepare(
+      'UPDATE account_deletions SET email = ?, email_hash = ? WHERE email = ? AND completed_at IS NULL AND cancelled_at IS NULL'
+    ).bind(newEmail, await sha256Hex(newEmail), oldEmail),
+    env.DB.prepare('UPDATE email_changes SET completed_at = ? WHERE id = ?').bind(now, changeId),
+    ...consent,
+  ]);
+}
+
+/**
+ * Everything stored about `email`, for members exercising their right of
+ * access. Secrets such as password hashes and tokens are left out, and so
+ * are email bodies: an unsent or unclicked message still carries a live
+ * sign-in, reset or confirmation link.
+ */
+async function collectMemberData(env: Env, email: string): Promise<Record<string, unknown>> {
+  const subscription = await env.DB.prepare(
+    'SELECT created_at, updated_at, confirmed, unsubscribed_at, unsubscribe_reason FROM subscriptions WHERE email = ?'
+  )
+    .bind(email)
+    .first<{
+      created_at: string | null;
+      updated_at: string | null;
+      confirmed: number;
+      unsubscribed_at: string | null;
+      unsubscribe_reason: string | null;
+    }>();
+
+  const profile = await env.DB.prepare('SELECT name, bio, created_at, updated_at FROM profiles WHERE email = ?')
+    .bind(email)
+    .first<{ name: string; bio: string; created_at: string; updated_at: string }>();
+
+  const { results: emails } = await env.DB.prepare(
+    'SELECT subject, status, created_at, sent_at FROM email_outbox WHERE recipient = ? ORDER BY created_at'
+  )
+    .bind(email)
+    .all<{ subject: string; status: string; created_at: string; sent_at: string | null }>();
+
+  const { results: emailChanges } = await env.DB.prepare(
+    'SELECT old_email, new_email, requested_at, completed_at, cancelled_at FROM email_changes WHERE old_email = ? OR new_email = ? ORDER BY id'
+  )
+    .bind(email, email)
+    .all<{
+      old_email: string;
+      new_email: string;
+      requested_at: string;
+      completed_at: string | null;
+      cancelled_at: string | null;
+    }>();
+
+  const { results: logins } = await env.DB.prepare(
+    "SELECT outcome, ip, user_agent, created_at FROM login_attempts WHERE email = ? AND role = 'member' ORDER BY created_at"
+  )
+    .bind(email)
+    .all<{ outcome: LoginOutcome; ip: string | null; user_agent: string | null; created_at: string }>();
+
+  const deletion = await findPendingDeletion(env, email);
+  const consentEvents = await loadConsentHistory(env, await consentAddresses(env, email));
+
+  return {
+    email,
+    exportedAt: new Date().toISOString(),
+    subscription: subscription
+      ? { createdAt: subscription.created_at, updatedAt: subscription.updated_at }
+      : null,
+    consent: subscription
+      ? {
+          confirmed: !!subscription.confirmed,
+          unsubscribedAt: subscription.unsubscribed_at,
+          unsubscribeReason: subscription.unsubscribe_reason,
+        }
+      : null,
+    consentEvents: consentEvents.map(toConsentEventJson),
+    profile: profile
+      ? { name: profile.name, bio: profile.bio, createdAt: profile.created_at, updatedAt: profile.updated_at }
+      : null,
+    emails: emails.map((row) => ({
+      subject: row.subject,
+      status: row.status,
+      createdAt: row.created_at,
+      sentAt: row.sent_at,
+    })),
+    emailChanges: emailChanges.map((row) => ({
+      oldEmail: row.old_email,
+      newEmail: row.new_email,
+      requestedAt: row.requested_at,
+      completedAt: row.completed_at,
+      cancelledAt: row.cancelled_at,
+    })),
+    loginAttempts: logins.map((row) => ({
+      outcome: row.outcome,
+      ip: row.ip,
+      userAgent: row.user_agent,
+      createdAt: row.created_at,
+    })),
+    deletion: deletion ? { requestedAt: deletion.requested_at, deleteAfter: deletion.delete_after } : null,
+  };
+}
+
+async function handleAccountExport(env: Env, session: UserSession, log: (...args: unknown[]) => void): Promise<Response> {
+  try {
+    const response = jsonResponse({ success: true, data: await collectMemberData(env, session.email) }, 200);
+    response.headers.set('content-disposition', 'attachment; filename="solar-roots-data.json"');
+    return response;
+  } catch (error) {
+    log('Account export failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function findPendingDeletion(
+  env: Env,
+  email: string
+): Promise<{ id: number; requested_at: string; delete_after: string } | null> {
+  return env.DB.prepare(
+    'SELECT id, requested_at, delete_after FROM account_deletions WHERE email = ? AND completed_at IS NULL AND cancelled_at IS NULL'
+  )
+    .bind(email)
+    .first<{ id: number; requested_at: string; delete_after: string }>();
+}
+
+/**
+ * Schedules the account behind `email` for erasure once the grace period is
+ * over and emails the owner so they can still back out. Asking again while a
+ * request is pending keeps the original date.
+ */
+async function scheduleAccountDeletion(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  email: string,
+  requestedBy: string,
+  log: (...args: unknown[]) => void
+): Promise<{ deleteAfter: string; created: boolean }> {
+  const pending = await findPendingDeletion(env, email);
+  if (pending) {
+    return { deleteAfter: pending.delete_after, created: false };
+  }
+
+  const now = new Date();
+  const deleteAfter = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_SECONDS * 1000).toISOString();
+  await env.DB.prepare(
+    'INSERT INTO account_deletions (email, email_hash, requested_by, requested_at, delete_after) VALUES (?, ?, ?, ?, ?)'
+  )
+    .bind(email, await sha256Hex(email), requestedBy, now.toISOString(), deleteAfter)
+    .run();
+
+  // Without a profile there is nothing to sign in to, so the email asks for a
+  // reply instead and an admin cancels the request.
+  const profile = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(email).first();
+  const cancelLink = profile
+    ? new URL('/login.html', env.SITE_BASE_URL ?? new URL(request.url).origin).toString()
+    : undefined;
+  await queueEmail(
+    env,
+    ctx,
+    email,
+    renderEmail('accountDeletion', { date: new Date(deleteAfter).toUTCString(), cancelLink }),
+    log
+  );
+
+  return { deleteAfter, created: true };
+}
+
+async function cancelAccountDeletion(env: Env, email: string): Promise<boolean> {
+  const result = await env.DB.prepare(
+    'UPDATE account_deletions SET cancelled_at = ? WHERE email = ? AND completed_at IS NULL AND cancelled_at IS NULL'
+  )
+    .bind(new Date().toISOString(), email)
+    .run<{ meta?: { changes?: number } }>();
+
+  return (result?.meta?.changes ?? 0) > 0;
+}
+
+async function handleAccountDeletion(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  session: UserSession,
+  { currentPassword }: SchemaValues<typeof ACCOUNT_DELETION_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    const profile = await env.DB.prepare('SELECT password_hash FROM profiles WHERE email = ?')
+      .bind(session.email)
+      .first<{ password_hash: string | null }>();
+
+    if (profile && !(await checkCurrentPassword(profile.password_hash, currentPassword))) {
+      return validationErrorResponse(INCORRECT_CURRENT_PASSWORD);
+    }
+
+    const { deleteAfter, created } = await scheduleAccountDeletion(request, env, ctx, session.email, 'member', log);
+    return jsonResponse(
+      {
+        success: true,
+        message: `Your account will be deleted on ${new Date(deleteAfter).toUTCString()}. Sign in before then to cancel.`,
+        deleteAfter,
+      },
+      created ? 202 : 200
+    );
+  } catch (error) {
+    log('Account deletion handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAccountDeletionCancel(
+  env: Env,
+  session: UserSession,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    if (!(await cancelAccountDeletion(env, session.email))) {
+      return jsonResponse({ success: false, error: 'No account deletion is pending.' }, 404);
+    }
+
+    return jsonResponse({ success: true, message: 'Your account will not be deleted.' }, 200);
+  } catch (error) {
+    log('Account deletion cancel handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleProfileSetupLink(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const subscription = await env.DB.prepare('SELECT confirmed, unsubscribed_at FROM subscriptions WHERE email = ?')
+      .bind(email)
+      .first<{ confirmed: number; unsubscribed_at: string | null }>();
+
+    // Answer the same way either way so the endpoint does not reveal who
+    // subscribed or already has a profile.
+    if (subscription?.confirmed && !subscription.unsubscribed_at) {
+      const link = await issueProfileSetupLink(request, env, email);
+      if (link) {
+        await queueEmail(env, ctx, email, renderEmail('profileSetup', { link }), log);
+      }
+    }
+
+    return jsonResponse(
+      { success: true, message: 'If that address can set up a profile, a link is on its way.' },
+      202
+    );
+  } catch (error) {
+    log('Profile setup link handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleLogin(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  { email, password }: SchemaValues<typeof LOGIN_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const activeLockout = await findActiveLockout(env, email, 'member');
+    if (activeLockout) {
+      await recordLoginAttempt(request, env, email, 'member', 'locked', new Date().toISOString());
+      return lockedResponse(activeLockout);
+    }
+
+    const profile = await env.DB
+      .prepare('SELECT password_hash FROM profiles WHERE email = ?')
+      .bind(email)
+      .first<{ password_hash: string | null }>();
+
+    if (!profile || !profile.password_hash) {
+      await recordLoginFailure(request, env, email, 'member');
+      return jsonResponse(
+        {
+          success: false,
+          error: 'We could not find an account with a password for that email. Please create or update your profile first.',
+        },
+        404
+      );
+    }
+
+    const { valid, needsRehash } = await verifyPassword(password, profile.password_hash);
+    if (!valid) {
+      const lockedUntil = await recordLoginFailure(request, env, email, 'member');
+      if (lockedUntil) {
+        const base = env.SITE_BASE_URL ?? new URL(request.url).origin;
+        const resetLink = new URL('/reset-password.html', base).toString();
+        await queueLockoutEmail(env, ctx, email, lockedUntil, resetLink, log);
+        return lockedResponse(lockedUntil);
+      }
+
+      return jsonResponse({ success: false, error: 'Incorrect password. Please try again.' }, 401);
+    }
+
+    await recordLoginAttempt(request, env, email, 'member', 'success', new Date().toISOString());
+
+    if (needsRehash) {
+      await env.DB
+        .prepare('UPDATE profiles SET password_hash = ?, updated_at = ? WHERE email = ?')
+        .bind(await hashPassword(password), new Date().toISOString(), email)
+        .run();
+    }
+
+    if (!env.SESSION_SECRET) {
+      log('Login attempted without a configured SESSION_SECRET');
+      return jsonResponse({ success: false, error: 'Member sessions are not configured.' }, 503);
+    }
+
+    const cookie = await replaceMemberSession(request, env, email);
+    const response = jsonResponse({ success: true, message: 'Login successful.' }, 200);
+    response.headers.append('set-cookie', cookie);
+    return response;
+  } catch (error) {
+    log('Login handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+/**
+ * Signs the member in as `email`, revoking whatever session the request
+ * already carried, and returns the Set-Cookie value for the new one.
+ */
+async function replaceMemberSession(request: Request, env: Env, email: string): Promise<string> {
+  const previousSessionId = await readSessionId(request, env, 'member');
+  if (previousSessionId) {
+    await revokeSession(env, previousSessionId);
+  }
+
+  const { cookie } = await createSession(env, email, 'member');
+  return cookie;
+}
+
+async function handleLoginLinkRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const profile = await env.DB.prepare('SELECT email FROM profiles WHERE email = ?').bind(email).first();
+
+    // Same answer whether or not the account exists, as for password resets.
+    if (profile) {
+      const token = await issueEmailToken(env, 'login', email, LOGIN_LINK_TTL_SECONDS);
+      const link = new URL('/login/link', env.SITE_BASE_URL ?? new URL(request.url).origin);
+      link.searchParams.set('token', token);
+      await queueEmail(env, ctx, email, renderEmail('loginLink', { link: link.toString() }), log);
+    }
+
+    return jsonResponse(
+      { success: true, message: 'If an account exists for that email, a sign-in link is on its way.' },
+      202
+    );
+  } catch (error) {
+    log('Login link request handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+function loginLinkForm(token: string): string {
+  return `<form method="post" action="/login/link">
+        <input type="hidden" name="token" value="${escapeHtml(token)}" />
+        <button type="submit">Sign me in</button>
+      </form>`;
+}
+
+/**
+ * Opening the emailed link only shows a button, because mail scanners
+ * prefetch links and would otherwise use the token up. The POST from that
+ * button claims the token and starts the member session.
+ */
+async function handleLoginLink(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const form = request.method === 'POST' ? await request.formData().catch(() => null) : null;
+  const rawToken = form ? form.get('token') : new URL(request.url).searchParams.get('token');
+  const token = typeof rawToken === 'string' ? rawToken.trim() : '';
+
+  const invalidLink = () =>
+    htmlResponse(
+      'Sign-in Failed',
+      'This sign-in link is invalid or has expired. Please request a new one.',
+      'error',
+      '<a class="button" href="/login.html">Back to log in</a>'
+    );
+
+  if (!token) {
+    return invalidLink();
+  }
+
+  if (!env.SESSION_SECRET) {
+    log('Login link used without a configured SESSION_SECRET');
+    return htmlResponse('Sign-in Failed', 'Member sessions are not configured.', 'error');
+  }
+
+  try {
+    await ensureSchema(env.DB);
+
+    const email = await findEmailToken(env, 'login', token);
+    if (!email) {
+      return invalidLink();
+    }
+
+    if (request.method === 'GET') {
+      return htmlResponse('Sign in to Solar Roots', `Continue as ${escapeHtml(email)}?`, 'info', loginLinkForm(token));
+    }
+
+    if (!(await claimEmailToken(env, 'login', token))) {
+      return invalidLink();
+    }
+
+    await recordLoginAttempt(request, env, email, 'member', 'success', new Date().toISOString());
+    const cookie = await replaceMemberSession(request, env, email);
+
+    return new Response(null, {
+      status: 303,
+      headers: { location: '/login.html', 'set-cookie': cookie },
+    });
+  } catch (error) {
+    log('Login link handler failed', error);
+    return htmlResponse('Sign-in Failed', 'Something went wrong on our end. Please try again later.', 'error');
+  }
+}
+
+async function handleMe(
+  _request: Request,
+  env: Env,
+  session: UserSession,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    const profile = await env.DB
+      .prepare('SELECT email, name, bio, created_at, updated_at FROM profiles WHERE email = ?')
+      .bind(session.email)
+      .first<{ email: string; name: string; bio: string; created_at: string; updated_at: string }>();
+
+    if (!profile) {
+      return jsonResponse({ success: false, error: 'Profile not found.' }, 404);
+    }
+
+    const deletion = await findPendingDeletion(env, session.email);
+
+    return jsonResponse(
+      {
+        success: true,
+        profile: {
+          email: profile.email,
+          name: profile.name,
+          bio: profile.bio,
+          createdAt: profile.created_at,
+          updatedAt: profile.updated_at,
+        },
+        deletion: deletion ? { requestedAt: deletion.requested_at, deleteAfter: deletion.delete_after } : null,
+      },
+      200
+    );
+  } catch (error) {
+    log('Profile lookup failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleLogout(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    const sessionId = await readSessionId(request, env, 'member');
+    if (sessionId) {
+      await ensureSchema(env.DB);
+      await revokeSession(env, sessionId);
+    }
+  } catch (error) {
+    log('Logout handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+
+  const response = jsonResponse({ success: true, message: 'Logged out.' }, 200);
+  response.headers.append('set-cookie', buildSessionCookie('member', '', 0));
+  return response;
+}
+
+async function handlePasswordForgot(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const profile = await env.DB
+      .prepare('SELECT email FROM profiles WHERE email = ?')
+      .bind(email)
+      .first<{ email: string }>();
+
+    // Respond the same way whether or not the account exists so the endpoint
+    // cannot be used to discover who has a profile.
+    if (profile) {
+      const now = new Date();
+      const token = generateToken();
+      const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_SECONDS * 1000).toISOString();
+
+      await env.DB.prepare('DELETE FROM password_resets WHERE email = ? AND used_at IS NULL').bind(email).run();
+      await env.DB
+        .prepare('INSERT INTO password_resets (token_hash, email, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .bind(await sha256Hex(token), email, now.toISOString(), expiresAt)
+        .run();
+
+      const resetLink = buildPasswordResetLink(request.url, env.SITE_BASE_URL, token);
+      await queuePasswordResetEmail(env, ctx, email, resetLink, log);
+    }
+
+    return jsonResponse(
+      { success: true, message: 'If an account exists for that email, a reset link is on its way.' },
+      202
+    );
+  } catch (error) {
+    log('Password forgot handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handlePasswordReset(
+  env: Env,
+  { token, password }: SchemaValues<typeof PASSWORD_RESET_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const now = new Date().toISOString();
+    const tokenHash = await sha256Hex(token);
+    const reset = await env.DB
+      .prepare('SELECT email FROM password_resets WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?')
+      .bind(tokenHash, now)
+      .first<{ email: string }>();
+
+    if (!reset) {
+      return jsonResponse(
+        { success: false, error: 'This reset link is invalid or has expired. Please request a new one.' },
+        400
+      );
+    }
+
+    // Claim the token before touching the password so a replayed request
+    // racing this one cannot use it as well.
+    const claimed = await env.DB
+      .prepare('UPDATE password_resets SET used_at = ? WHERE token_hash = ? AND used_at IS NULL')
+      .bind(now, tokenHash)
+      .run<{ meta?: { changes?: number } }>();
+
+    if (claimed?.meta?.changes !== 1) {
+      return jsonResponse(
+        { success: false, error: 'This reset link is invalid or has expired. Please request a new one.' },
+        400
+      );
+    }
+
+    await env.DB
+      .prepare('UPDATE profiles SET password_hash = ?, updated_at = ? WHERE email = ?')
+      .bind(await hashPassword(password), now, reset.email)
+      .run();
+    await env.DB.prepare("DELETE FROM sessions WHERE email = ? AND role = 'member'").bind(reset.email).run();
+    await cancelEmailChange(env, reset.email);
+
+    return jsonResponse({ success: true, message: 'Your password has been reset. You can log in now.' }, 200);
+  } catch (error) {
+    log('Password reset handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminLogin(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  { email, password }: SchemaValues<typeof LOGIN_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const adminEmail = env.ADMIN_EMAIL?.trim().toLowerCase();
+  const adminPasswordHash = env.ADMIN_PASSWORD_HASH?.trim();
+  const adminPassword = env.ADMIN_PASSWORD ?? '';
+
+  if (!adminEmail || (!adminPassword && !adminPasswordHash)) {
+    log('Admin login attempted without configured credentials');
+    return jsonResponse(
+      {
+        success: false,
+        error: 'Admin access is not configured.',
+      },
+      503
+    );
+  }
+
+  try {
+    // Sign-in carries on against the schema already in place when a migration
+    // fails, so the admin can still reach /api/admin/migrations to retry it.
+    await ensureSchema(env.DB).catch((error) => log('Schema check failed during admin login', error));
+
+    const activeLockout = await findActiveLockout(env, email, 'admin');
+    if (activeLockout) {
+      await recordLoginAttempt(request, env, email, 'admin', 'locked', new Date().toISOString());
+      return lockedResponse(activeLockout);
+    }
+
+    let valid = false;
+    if (email === adminEmail && adminPasswordHash) {
+      const result = await verifyPassword(password, adminPasswordHash);
+      valid = result.valid;
+
+      if (valid && result.needsRehash) {
+        log('ADMIN_PASSWORD_HASH uses a legacy format; replace it with a pbkdf2-sha256 hash');
+      }
+    } else if (email === adminEmail) {
+      valid = timingSafeEqual(password, adminPassword);
+    }
+
+    if (!valid) {
+      const lockedUntil = await recordLoginFailure(request, env, email, 'admin');
+      if (lockedUntil) {
+        if (email === adminEmail) {
+          await queueLockoutEmail(env, ctx, adminEmail, lockedUntil, null, log);
+        }
+        return lockedResponse(lockedUntil);
+      }
+
+      return jsonResponse({ success: false, error: 'Incorrect admin credentials.' }, 401);
+    }
+
+    await recordLoginAttempt(request, env, email, 'admin', 'success', new Date().toISOString());
+
+    if (!env.SESSION_SECRET) {
+      log('Admin login attempted without a configured SESSION_SECRET');
+      return jsonResponse({ success: false, error: 'Admin sessions are not configured.' }, 503);
+    }
+
+    const previousSessionId = await readSessionId(request, env, 'admin');
+    if (previousSessionId) {
+      await revokeSession(env, previousSessionId);
+    }
+
+    const { cookie } = await createSession(env, adminEmail, 'admin');
+    const response = jsonResponse({ success: true, message: 'Admin login successful.' }, 200);
+    response.headers.append('set-cookie', cookie);
+    return response;
+  } catch (error) {
+    log('Admin login handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminLogout(
+  request: Request,
+  env: Env,
+  session: UserSession,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await revokeSession(env, session.id);
+  } catch (error) {
+    log('Admin logout handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+
+  const response = jsonResponse({ success: true, message: 'Logged out.' }, 200);
+  response.headers.append('set-cookie', buildSessionCookie('admin', '', 0));
+  return response;
+}
+
+async function handleAdminLoginAttempts(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const outcome = params.get('outcome') ?? 'failure';
+  if (outcome !== 'all' && outcome !== 'success' && outcome !== 'failure' && outcome !== 'locked') {
+    return jsonResponse({ success: false, error: 'Outcome must be success, failure, locked or all.' }, 400);
+  }
+
+  const limitParam = Number(params.get('limit') ?? ADMIN_PAGE_SIZE_DEFAULT);
+  if (!Number.isInteger(limitParam) || limitParam < 1) {
+    return jsonResponse({ success: false, error: 'Limit must be a positive integer.' }, 400);
+  }
+  const limit = Math.min(limitParam, ADMIN_PAGE_SIZE_MAX);
+
+  const conditions: string[] = [];
+  const bindings: unknown[] = [];
+
+  if (outcome !== 'all') {
+    conditions.push('outcome = ?');
+    bindings.push(outcome);
+  }
+
+  const email = params.get('email');
+  if (email) {
+    conditions.push('email = ?');
+    bindings.push(normalizeEmail(email));
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  try {
+    await ensureSchema(env.DB);
+
+    const { results: attempts } = await env.DB.prepare(
+      `SELECT email, role, outcome, ip, user_agent, created_at FROM login_attempts ${where} ORDER BY created_at DESC, id DESC LIMIT ?`
+    )
+      .bind(...bindings, limit)
+      .all<{ email: string; role: SessionRole; outcome: LoginOutcome; ip: string | null; user_agent: string | null; created_at: string }>();
+
+    const { results: lockouts } = await env.DB.prepare(
+      'SELECT email, role, locked_at, locked_until FROM account_lockouts WHERE unlocked_at IS NULL AND locked_until > ? ORDER BY locked_until DESC'
+    )
+      .bind(new Date().toISOString())
+      .all<{ email: string; role: SessionRole; locked_at: string; locked_until: string }>();
+
+    return jsonResponse(
+      {
+        success: true,
+        attempts: attempts.map((attempt) => ({
+          email: attempt.email,
+          role: attempt.role,
+          outcome: attempt.outcome,
+          ip: attempt.ip,
+          userAgent: attempt.user_agent,
+          createdAt: attempt.created_at,
+        })),
+        lockouts: lockouts.map((lockout) => ({
+          email: lockout.email,
+          role: lockout.role,
+          lockedAt: lockout.locked_at,
+          lockedUntil: lockout.locked_until,
+        })),
+      },
+      200
+    );
+  } catch (error) {
+    log('Admin login attempts handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminUnlock(
+  env: Env,
+  session: UserSession,
+  { email, role }: SchemaValues<typeof UNLOCK_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    const now = new Date().toISOString();
+    const roleCondition = role ? ' AND role = ?' : '';
+    const result = await env.DB.prepare(
+      `UPDATE account_lockouts SET unlocked_at = ?, unlocked_by = ? WHERE email = ? AND unlocked_at IS NULL AND locked_until > ?${roleCondition}`
+    )
+      .bind(now, session.email, email, now, ...(role ? [role] : []))
+      .run<{ meta?: { changes?: number } }>();
+
+    const unlocked = result?.meta?.changes ?? 0;
+    if (unlocked === 0) {
+      return jsonResponse({ success: false, error: 'No active lockout for that email.' }, 404);
+    }
+
+    log('Admin unlocked account', { email, role: role ?? 'any', by: session.email });
+    return jsonResponse({ success: true, message: 'Account unlocked.', unlocked }, 200);
+  } catch (error) {
+    log('Admin unlock handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function memberExists(env: Env, email: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    'SELECT email FROM subscriptions WHERE email = ? UNION SELECT email FROM profiles WHERE email = ?'
+  )
+    .bind(email, email)
+    .first();
+  return !!row;
+}
+
+/** Export and deletion on behalf of members whose requests arrive by mail. */
+async function handleAdminMemberExport(
+  env: Env,
+  session: UserSession,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    if (!(await memberExists(env, email))) {
+      return jsonResponse({ success: false, error: 'No member with that email.' }, 404);
+    }
+
+    log('Admin exported member data', { email, by: session.email });
+    return jsonResponse({ success: true, data: await collectMemberData(env, email) }, 200);
+  } catch (error) {
+    log('Admin member export failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminMemberDeletion(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  session: UserSession,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    if (!(await memberExists(env, email))) {
+      return jsonResponse({ success: false, error: 'No member with that email.' }, 404);
+    }
+
+    const { deleteAfter, created } = await scheduleAccountDeletion(request, env, ctx, email, session.email, log);
+    if (created) {
+      log('Admin scheduled account deletion', { email, deleteAfter, by: session.email });
+    }
+
+    return jsonResponse(
+      { success: true, message: created ? 'Deletion scheduled.' : 'Deletion was already scheduled.', deleteAfter },
+      created ? 202 : 200
+    );
+  } catch (error) {
+    log('Admin member deletion failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminMemberDeletionCancel(
+  env: Env,
+  session: UserSession,
+  { email }: SchemaValues<typeof EMAIL_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    if (!(await cancelAccountDeletion(env, email))) {
+      return jsonResponse({ success: false, error: 'No account deletion is pending for that email.' }, 404);
+    }
+
+    log('Admin cancelled account deletion', { email, by: session.email });
+    return jsonResponse({ success: true, message: 'Deletion cancelled.' }, 200);
+  } catch (error) {
+    log('Admin member deletion cancel failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminConsent(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const email = normalizeEmail(new URL(request.url).searchParams.get('email') ?? '');
+  if (!isValidEmail(email)) {
+    return jsonResponse({ success: false, error: 'A valid email query parameter is required.' }, 400);
+  }
+
+  try {
+    await ensureSchema(env.DB);
+
+    const addresses = await consentAddresses(env, email);
+    const events = await loadConsentHistory(env, addresses);
+    return jsonResponse(
+      {
+        success: true,
+        email,
+        addresses: addresses.map((address) => address.email),
+        events: events.map(toConsentEventJson),
+      },
+      200
+    );
+  } catch (error) {
+    log('Admin consent history failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminOutbox(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const status = params.get('status') ?? 'dead';
+  if (status !== 'all' && status !== 'pending' && status !== 'sent' && status !== 'dead') {
+    return jsonResponse({ success: false, error: 'Status must be pending, sent, dead or all.' }, 400);
+  }
+
+  const limitParam = Number(params.get('limit') ?? ADMIN_PAGE_SIZE_DEFAULT);
+  if (!Number.isInteger(limitParam) || limitParam < 1) {
+    return jsonResponse({ success: false, error: 'Limit must be a positive integer.' }, 400);
+  }
+  const limit = Math.min(limitParam, ADMIN_PAGE_SIZE_MAX);
+
+  try {
+    await ensureSchema(env.DB);
+
+    const where = status === 'all' ? '' : 'WHERE status = ?';
+    const { results } = await env.DB.prepare(
+      `SELECT id, recipient, subject, status, attempts, next_attempt_at, last_error, created_at, sent_at FROM email_outbox ${where} ORDER BY created_at DESC LIMIT ?`
+    )
+      .bind(...(status === 'all' ? [] : [status]), limit)
+      .all<Omit<OutboxRow, 'text_body' | 'html_body' | 'headers'>>();
+
+    const { results: counts } = await env.DB.prepare('SELECT status, COUNT(*) AS count FROM email_outbox GROUP BY status')
+      .all<{ status: string; count: number }>();
+
+    return jsonResponse(
+      {
+        success: true,
+        counts: Object.fromEntries(counts.map((row) => [row.status, row.count])),
+        maxAttempts: OUTBOX_MAX_ATTEMPTS,
+        messages: results.map((row) => ({
+          id: row.id,
+          recipient: row.recipient,
+          subject: row.subject,
+          status: row.status,
+          attempts: row.attempts,
+          nextAttemptAt: row.next_attempt_at,
+          lastError: row.last_error,
+          createdAt: row.created_at,
+          sentAt: row.sent_at,
+        })),
+      },
+      200
+    );
+  } catch (error) {
+    log('Admin outbox handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminOutboxRequeue(
+  env: Env,
+  ctx: ExecutionContext,
+  { ids }: SchemaValues<typeof OUTBOX_REQUEUE_BODY>,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  // Without ids every dead message is requeued.
+  try {
+    await ensureSchema(env.DB);
+
+    const now = new Date().toISOString();
+    const idCondition = ids ? ` AND id IN (${ids.map(() => '?').join(', ')})` : '';
+    const result = await env.DB.prepare(
+      `UPDATE email_outbox SET status = 'pending', attempts = 0, next_attempt_at = ?, last_error = NULL, updated_at = ? WHERE status = 'dead'${idCondition}`
+    )
+      .bind(now, now, ...(ids ?? []))
+      .run<{ meta?: { changes?: number } }>();
+
+    const requeued = result?.meta?.changes ?? 0;
+    if (requeued > 0) {
+      log('Requeued dead emails', { requeued });
+      ctx.waitUntil(
+        drainOutbox(env, log).catch((error) => {
+          log('Outbox drain after requeue failed', error);
+        })
+      );
+    }
+
+    return jsonResponse({ success: true, requeued }, 200);
+  } catch (error) {
+    log('Admin outbox requeue handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+function handleAdminEmailPreview(request: Request, env: Env, templateName: string): Response {
+  if (!isEmailTemplateName(templateName)) {
+    return jsonResponse(
+      { success: false, error: 'Unknown email template.', templates: EMAIL_TEMPLATE_NAMES },
+      404
+    );
+  }
+
+  const url = new URL(request.url);
+  const rendered = renderSampleEmail(templateName, env.SITE_BASE_URL ?? url.origin);
+  const format = url.searchParams.get('format') ?? 'json';
+
+  if (format === 'html') {
+    return new Response(rendered.html, { status: 200, headers: { ...HTML_HEADERS, 'cache-control': 'no-store' } });
+  }
+
+  if (format === 'text') {
+    return new Response(rendered.text, {
+      status: 200,
+      headers: { 'content-type': 'text/plain; charset=utf-8', 'cache-control': 'no-store' },
+    });
+  }
+
+  if (format !== 'json') {
+    return jsonResponse({ success: false, error: 'Format must be json, html or text.' }, 400);
+  }
+
+  return jsonResponse({ success: true, template: templateName, ...rendered }, 200);
+}
+
+function toBroadcastJson(record: BroadcastRecord, recipients?: Record<string, number>): Record<string, unknown> {
+  return {
+    id: record.id,
+    subject: record.subject,
+    html: record.html_body,
+    status: record.status,
+    scheduledAt: record.scheduled_at,
+    createdBy: record.created_by,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+    startedAt: record.started_at,
+    completedAt: record.completed_at,
+    ...(recipients ? { recipients } : {}),
+  };
+}
+
+async function loadBroadcast(env: Env, id: string): Promise<BroadcastRecord | null> {
+  return env.DB.prepare('SELECT * FROM broadcasts WHERE id = ?').bind(id).first<BroadcastRecord>();
+}
+
+async function broadcastRecipientCounts(env: Env, id: string): Promise<Record<string, number>> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${BROADCAST_DELIVERY_STATUS} AS delivery_status, COUNT(*) AS count
+     FROM broadcast_recipients r LEFT JOIN email_outbox o ON o.id = r.outbox_id
+     WHERE r.broadcast_id = ? GROUP BY delivery_status`
+  )
+    .bind(id)
+    .all<{ delivery_status: string; count: number }>();
+
+  return Object.fromEntries(results.map((row) => [row.delivery_status, row.count]));
+}
+
+async function renderBroadcast(env: Env, broadcast: BroadcastRecord, recipient: string): Promise<RenderedEmail> {
+  const unsubscribeLink = await buildUnsubscribeLink(env, recipient);
+  return renderEmail('broadcast', {
+    subject: broadcast.subject,
+    body: broadcast.html_body,
+    unsubscribeLink: unsubscribeLink ?? undefined,
+  });
+}
+
+/**
+ * Erases accounts whose deletion grace period has ended. Each account goes in
+ * one transaction: the subscription and profile are deleted along with the
+ * sessions, tokens, mail, login and consent history kept under the address or
+ * under any address the account was moved from while it still held it, and
+ * the request rows for those addresses keep only the address hash.
+ */
+async function processAccountDeletions(env: Env, log: (...args: unknown[]) => void): Promise<number> {
+  const now = new Date().toISOString();
+  const { results: due } = await env.DB.prepare(
+    'SELECT id, email FROM account_deletions WHERE completed_at IS NULL AND cancelled_at IS NULL AND delete_after <= ? ORDER BY delete_after'
+  )
+    .bind(now)
+    .all<{ id: number; email: string }>();
+
+  let deleted = 0;
+  for (const { id, email } of due) {
+    try {
+      // The account itself lives under its current address; history from
+      // before an email change stays under the earlier ones, up to the move.
+      const addresses = await consentAddresses(env, email);
+      await env.DB.batch([
+        env.DB.prepare('DELETE FROM profiles WHERE email = ?').bind(email),
+        env.DB.prepare('DELETE FROM subscriptions WHERE email = ?').bind(email),
+        env.DB.prepare("DELETE FROM sessions WHERE email = ? AND role = 'member'").bind(email),
+        ...addresses.flatMap(({ email: address, until }) => {
+          // Rows written after the account moved off an address belong to its new owner.
+          const held = (sql: string) => env.DB.prepare(sql).bind(address, until, until);
+          return [
+            held('DELETE FROM consent_events WHERE email = ? AND (? IS NULL OR created_at <= ?)'),
+            held('DELETE FROM email_tokens WHERE email = ? AND (? IS NULL OR created_at <= ?)'),
+            held('DELETE FROM password_resets WHERE email = ? AND (? IS NULL OR created_at <= ?)'),
+            held('DELETE FROM email_outbox WHERE recipient = ? AND (? IS NULL OR created_at <= ?)'),
+            held('DELETE FROM broadcast_recipients WHERE email = ? AND (? IS NULL OR updated_at <= ?)'),
+            held("DELETE FROM login_attempts WHERE email = ? AND role = 'member' AND (? IS NULL OR created_at <= ?)"),
+            held("DELETE FROM account_lockouts WHERE email = ? AND role = 'member' AND (? IS NULL OR locked_at <= ?)"),
+            env.DB.prepare(
+              'DELETE FROM email_changes WHERE (old_email = ? OR new_email = ?) AND (? IS NULL OR requested_at <= ?)'
+            ).bind(address, address, until, until),
+            // Requests that were cancelled earlier keep their hash, not the address.
+            held('UPDATE account_deletions SET email = NULL WHERE email = ? AND (? IS NULL OR requested_at <= ?)'),
+          ];
+        }),
+        env.DB.prepare('UPDATE account_deletions SET completed_at = ? WHERE id = ?').bind(now, id),
+      ]);
+      deleted += 1;
+    } catch (error) {
+      log('Account deletion failed; will retry', { id, error });
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Starts broadcasts whose time has come and moves the next batch of their
+ * recipients into the outbox. The recipient list is snapshotted when sending
+ * starts; anyone who unsubscribes before their turn is skipped.
+ */
+async function advanceBroadcasts(
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<{ started: number; queued: number; completed: number }> {
+  const now = new Date().toISOString();
+  const summary = { started: 0, queued: 0, completed: 0 };
+
+  const { results: due } = await env.DB.prepare(
+    "SELECT id FROM broadcasts WHERE status = 'scheduled' AND scheduled_at <= ? ORDER BY scheduled_at"
+  )
+    .bind(now)
+    .all<{ id: string }>();
+
+  for (const { id } of due) {
+    const claimed = await env.DB.prepare(
+      "UPDATE broadcasts SET status = 'sending', started_at = ?, updated_at = ? WHERE id = ? AND status = 'scheduled'"
+    )
+      .bind(now, now, id)
+      .run<{ meta?: { changes?: number } }>();
+
+    if (claimed?.meta?.changes === 0) {
+      continue;
+    }
+
+    await env.DB.prepare(
+      "INSERT OR IGNORE INTO broadcast_recipients (broadcast_id, email, status, updated_at) SELECT ?, email, 'pending', ? FROM subscriptions WHERE confirmed = 1 AND unsubscribed_at IS NULL"
+    )
+      .bind(id, now)
+      .run();
+    summary.started += 1;
+  }
+
+  const { results: sending } = await env.DB.prepare(
+    "SELECT * FROM broadcasts WHERE status = 'sending' ORDER BY started_at"
+  ).all<BroadcastRecord>();
+
+  let budget = BROADCAST_BATCH_SIZE;
+  for (const broadcast of sending) {
+    if (budget > 0) {
+      const { results: recipients } = await env.DB.prepare(
+        `SELECT r.email, s.confirmed, s.unsubscribed_at FROM broadcast_recipients r
+         LEFT JOIN subscriptions s ON s.email = r.email
+         WHERE r.broadcast_id = ? AND r.status = 'pending' ORDER BY r.email LIMIT ?`
+      )
+        .bind(broadcast.id, budget)
+        .all<{ email: string; confirmed: number | null; unsubscribed_at: string | null }>();
+
+      for (const recipient of recipients) {
+        budget -= 1;
+        const updatedAt = new Date().toISOString();
+
+        if (!recipient.confirmed || recipient.unsubscribed_at) {
+          await env.DB.prepare(
+            "UPDATE broadcast_recipients SET status = 'skipped', updated_at = ? WHERE broadcast_id = ? AND email = ?"
+          )
+            .bind(updatedAt, broadcast.id, recipient.email)
+            .run();
+          continue;
+        }
+
+        const message = await renderBroadcast(env, broadcast, recipient.email);
+        const outboxId = await enqueueEmail(env.DB, await buildOutgoingEmail(env, recipient.email, message, log));
+        await env.DB.prepare(
+          "UPDATE broadcast_recipients SET status = 'queued', outbox_id = ?, updated_at = ? WHERE broadcast_id = ? AND email = ?"
+        )
+          .bind(outboxId, updatedAt, broadcast.id, recipient.email)
+          .run();
+        summary.queued += 1;
+      }
+    }
+
+    const remaining = await env.DB.prepare(
+      "SELECT COUNT(*) AS count FROM broadcast_recipients WHERE broadcast_id = ? AND status = 'pending'"
+    )
+      .bind(broadcast.id)
+      .first<{ count: number }>();
+
+    if ((remaining?.count ?? 0) === 0) {
+      const completedAt = new Date().toISOString();
+      await env.DB.prepare(
+        "UPDATE broadcasts SET status = 'sent', completed_at = ?, updated_at = ? WHERE id = ? AND status = 'sending'"
+      )
+        .bind(completedAt, completedAt, broadcast.id)
+        .run();
+      summary.completed += 1;
+    }
+  }
+
+  return summary;
+}
+
+async function handleAdminBroadcasts(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  session: UserSession,
+  id: string | undefined,
+  action: BroadcastAction | undefined,
+  body: BroadcastInput,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    await ensureSchema(env.DB);
+
+    if (!id) {
+      if (request.method === 'GET') {
+        const { results } = await env.DB.prepare(
+          'SELECT * FROM broadcasts ORDER BY created_at DESC LIMIT ?'
+        )
+          .bind(ADMIN_PAGE_SIZE_MAX)
+          .all<BroadcastRecord>();
+        return jsonResponse({ success: true, broadcasts: results.map((record) => toBroadcastJson(record)) }, 200);
+      }
+
+      const now = new Date().toISOString();
+      const broadcastId = generateToken();
+      await env.DB.prepare(
+        "INSERT INTO broadcasts (id, subject, html_body, status, created_by, created_at, updated_at) VALUES (?, ?, ?, 'draft', ?, ?, ?)"
+      )
+        .bind(broadcastId, body.subject, body.html, session.email, now, now)
+        .run();
+
+      const created = await loadBroadcast(env, broadcastId);
+      return jsonResponse({ success: true, broadcast: created ? toBroadcastJson(created) : null }, 201);
+    }
+
+    const broadcast = await loadBroadcast(env, id);
+    if (!broadcast) {
+      return jsonResponse({ success: false, error: 'Broadcast not found.' }, 404);
+    }
+
+    const now = new Date().toISOString();
+
+    if (!action && request.method === 'GET') {
+      return jsonResponse(
+        { success: true, broadcast: toBroadcastJson(broadcast, await broadcastRecipientCounts(env, id)) },
+        200
+      );
+    }
+
+    if (!action) {
+      if (broadcast.status !== 'draft') {
+        return jsonResponse({ success: false, error: 'Only draft broadcasts can be edited.' }, 409);
+      }
+
+      await env.DB.prepare('UPDATE broadcasts SET subject = ?, html_body = ?, updated_at = ? WHERE id = ?')
+        .bind(body.subject ?? broadcast.subject, body.html ?? broadcast.html_body, now, id)
+        .run();
+    }
+
+    if (action === 'recipients') {
+      const params = new URL(request.url).searchParams;
+      const status = params.get('status');
+      const limit = Math.min(Math.max(Number(params.get('limit')) || ADMIN_PAGE_SIZE_DEFAULT, 1), ADMIN_PAGE_SIZE_MAX);
+      const { results } = await env.DB.prepare(
+        `SELECT * FROM (
+           SELECT r.email, ${BROADCAST_DELIVERY_STATUS} AS delivery_status, o.attempts, o.last_error, o.sent_at, r.updated_at
+           FROM broadcast_recipients r LEFT JOIN email_outbox o ON o.id = r.outbox_id
+           WHERE r.broadcast_id = ?
+         ) ${status ? 'WHERE delivery_status = ?' : ''} ORDER BY email LIMIT ?`
+      )
+        .bind(id, ...(status ? [status] : []), limit)
+        .all<{
+          email: string;
+          delivery_status: string;
+          attempts: number | null;
+          last_error: string | null;
+          sent_at: string | null;
+          updated_at: string;
+        }>();
+
+      return jsonResponse(
+        {
+          success: true,
+          recipients: results.map((row) => ({
+            email: row.email,
+            status: row.delivery_status,
+            attempts: row.attempts ?? 0,
+            lastError: row.last_error,
+            sentAt: row.sent_at,
+            updatedAt: row.updated_at,
+          })),
+        },
+        200
+      );
+    }
+
+    if (action === 'test') {
+      const message = await renderBroadcast(env, broadcast, session.email);
+      await queueEmail(env, ctx, session.email, { ...message, subject: `[Test] ${message.subject}` }, log);
+      return jsonResponse({ success: true, message: `Test email queued for ${session.email}.` }, 202);
+    }
+
+    if (action === 'schedule') {
+      if (broadcast.status !== 'draft' && broadcast.status !== 'scheduled') {
+        return jsonResponse({ success: false, error: 'This broadcast has already been sent.' }, 409);
+      }
+
+      const sendAt = body.sendAt ? new Date(Math.max(body.sendAt.getTime(), Date.now())).toISOString() : now;
+
+      await env.DB.prepare("UPDATE broadcasts SET status = 'scheduled', scheduled_at = ?, updated_at = ? WHERE id = ?")
+        .bind(sendAt, now, id)
+        .run();
+      log('Broadcast scheduled', { id, sendAt, by: session.email });
+
+      if (sendAt <= now) {
+        ctx.waitUntil(
+          advanceBroadcasts(env, log)
+            .then(() => drainOutbox(env, log))
+            .catch((error) => {
+              log('Broadcast kickoff failed', error);
+            })
+        );
+      }
+    }
+
+    if (action === 'cancel') {
+      if (broadcast.status !== 'scheduled' && broadcast.status !== 'sending') {
+        return jsonResponse({ success: false, error: 'Only scheduled or sending broadcasts can be cancelled.' }, 409);
+      }
+
+      // An unscheduled broadcast goes back to being an editable draft; one that
+      // has started stops with whatever recipients are still pending.
+      const nextStatus: BroadcastStatus = broadcast.status === 'scheduled' ? 'draft' : 'cancelled';
+      await env.DB.prepare('UPDATE broadcasts SET status = ?, scheduled_at = NULL, updated_at = ? WHERE id = ?')
+        .bind(nextStatus, now, id)
+        .run();
+    }
+
+    const updated = await loadBroadcast(env, id);
+    return jsonResponse(
+      { success: true, broadcast: updated ? toBroadcastJson(updated, await broadcastRecipientCounts(env, id)) : null },
+      200
+    );
+  } catch (error) {
+    log('Admin broadcasts handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+async function handleAdminMigrations(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  try {
+    let appliedNow: { version: number; name: string }[] = [];
+
+    if (request.method === 'POST') {
+      schemaChecks.delete(env.DB);
+      try {
+        const applied = await migrate(env.DB);
+        appliedNow = applied.map(({ version, name }) => ({ version, name }));
+      } catch (error) {
+        log('Migration failed', error);
+        const status = await migrationStatus(env.DB);
+        const message = error instanceof Error ? error.message : String(error);
+        return jsonResponse({ success: false, error: `Migration failed: ${message}`, ...status }, 500);
+      }
+
+      if (appliedNow.length > 0) {
+        log('Applied migrations', appliedNow);
+      }
+    }
+
+    const status = await migrationStatus(env.DB);
+    return jsonResponse({ success: true, ...status, appliedNow }, 200);
+  } catch (error) {
+    log('Admin migrations handler failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+function encodeCursor(createdAt: string, email: string): string {
+  return btoa(JSON.stringify([createdAt, email])).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): { createdAt: string; email: string } | null {
+  try {
+    const decoded = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))) as unknown;
+    if (Array.isArray(decoded) && typeof decoded[0] === 'string' && typeof decoded[1] === 'string') {
+      return { createdAt: decoded[0], email: decoded[1] };
+    }
+  } catch {
+    // fall through to the invalid cursor response
+  }
+
+  return null;
+}
+
+/**
+ * Parses a `from`/`to` query value. Bare dates cover the whole day, so a `to`
+ * of 2024-05-31 still includes sign-ups made late on the 31st.
+ */
+function parseDateBound(value: string, bound: 'from' | 'to'): string | null {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    return null;
+  }
+
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  if (bound === 'to' && isDateOnly) {
+    return new Date(timestamp + 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return new Date(timestamp).toISOString();
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+/**
+ * Turns the shared admin query parameters (status, from, to, q) into SQL
+ * conditions over `subscriptions s`. Returns an error message for bad input.
+ */
+function parseSubscriptionFilters(params: URLSearchParams): SubscriptionFilters | { error: string } {
+  const conditions: string[] = [];
+  const bindings: unknown[] = [];
+
+  const status = params.get('status');
+  if (status === 'confirmed' || status === 'unconfirmed') {
+    conditions.push('s.confirmed = ?');
+    bindings.push(status === 'confirmed' ? 1 : 0);
+  } else if (status && status !== 'all') {
+    return { error: 'Status must be confirmed, unconfirmed or all.' };
+  }
+
+  const from = params.get('from');
+  if (from) {
+    const bound = parseDateBound(from, 'from');
+    if (!bound) {
+      return { error: 'Invalid from date.' };
+    }
+    conditions.push("COALESCE(s.created_at, '') >= ?");
+    bindings.push(bound);
+  }
+
+  const to = params.get('to');
+  if (to) {
+    const bound = parseDateBound(to, 'to');
+    if (!bound) {
+      return { error: 'Invalid to date.' };
+    }
+    conditions.push("COALESCE(s.created_at, '') < ?");
+    bindings.push(bound);
+  }
+
+  const search = params.get('q')?.trim().toLowerCase();
+  if (search) {
+    conditions.push("s.email LIKE ? ESCAPE '\\'");
+    bindings.push(`%${escapeLikePattern(search)}%`);
+  }
+
+  const order = params.get('order') ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'Order must be asc or desc.' };
+  }
+
+  return { conditions, bindings, order };
+}
+
+function cursorCondition(order: 'asc' | 'desc'): string {
+  const comparison = order === 'desc' ? '<' : '>';
+  return `(COALESCE(s.created_at, '') ${comparison} ? OR (COALESCE(s.created_at, '') = ? AND s.email ${comparison} ?))`;
+}
+
+async function handleAdminSubscriptions(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const filters = parseSubscriptionFilters(params);
+  if ('error' in filters) {
+    return jsonResponse({ success: false, error: filters.error }, 400);
+  }
+
+  const { conditions, bindings, order } = filters;
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : ADMIN_PAGE_SIZE_DEFAULT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > ADMIN_PAGE_SIZE_MAX) {
+    return jsonResponse({ success: false, error: `Limit must be between 1 and ${ADMIN_PAGE_SIZE_MAX}.` }, 400);
+  }
+
+  const cursorParam = params.get('cursor');
+  if (cursorParam) {
+    const cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return jsonResponse({ success: false, error: 'Invalid cursor.' }, 400);
+    }
+
+    conditions.push(cursorCondition(order));
+    bindings.push(cursor.createdAt, cursor.createdAt, cursor.email);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')} ` : '';
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+
+  try {
+    await ensureSchema(env.DB);
+    const { results } = await env.DB
+      .prepare(
+        'SELECT s.email, s.confirmed, s.created_at, s.updated_at, p.name AS profile_name, p.bio AS profile_bio, ' +
+          'p.created_at AS profile_created_at FROM subscriptions s LEFT JOIN profiles p ON p.email = s.email ' +
+          `${where}ORDER BY COALESCE(s.created_at, '') ${direction}, s.email ${direction} LIMIT ?`
+      )
+      .bind(...bindings, limit + 1)
+      .all<AdminSubscriptionRow>();
+
+    const rows = results.slice(0, limit);
+    const last = rows[rows.length - 1];
+    const nextCursor = results.length > limit && last ? encodeCursor(last.created_at ?? '', last.email) : null;
+
+    return jsonResponse(
+      {
+        success: true,
+        subscriptions: rows.map((row) => ({
+          email: row.email,
+          confirmed: !!row.confirmed,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+          profile:
+            row.profile_name !== null
+              ? { name: row.profile_name, bio: row.profile_bio, createdAt: row.profile_created_at }
+              : null,
+        })),
+        pageInfo: { limit, order, nextCursor },
+      },
+      200
+    );
+  } catch (error) {
+    log('Admin subscription listing failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+}
+
+/**
+ * Formats one CSV field per RFC 4180. Values that a spreadsheet would treat
+ * as a formula are prefixed with an apostrophe so they open as plain text.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+async function handleAdminExport(
+  request: Request,
+  env: Env,
+  log: (...args: unknown[]) => void
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const format = params.get('format') ?? 'csv';
+  if (format !== 'csv' && format !== 'ndjson') {
+    return jsonResponse({ success: false, error: 'Format must be csv or ndjson.' }, 400);
+  }
+
+  const requestedColumns = params.get('columns');
+  const columns = requestedColumns
+    ? requestedColumns
+        .split(',')
+        .map((column) => column.trim())
+        .filter(Boolean)
+    : Object.keys(EXPORT_COLUMNS);
+  const unknownColumns = columns.filter((column) => !(column in EXPORT_COLUMNS));
+  if (!columns.length || unknownColumns.length) {
+    return jsonResponse(
+      {
+        success: false,
+        error: `Unknown export columns: ${unknownColumns.join(', ') || '(none)'}.`,
+        allowedColumns: Object.keys(EXPORT_COLUMNS),
+      },
+      400
+    );
+  }
+
+  const filters = parseSubscriptionFilters(params);
+  if ('error' in filters) {
+    return jsonResponse({ success: false, error: filters.error }, 400);
+  }
+
+  try {
+    await ensureSchema(env.DB);
+  } catch (error) {
+    log('Admin export failed', error);
+    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  }
+
+  const { order } = filters;
+  const direction = order === 'desc' ? 'DESC' : 'ASC';
+  const selectList = columns.map((column) => `${EXPORT_COLUMNS[column]} AS ${column}`).join(', ');
+  let cursor: { createdAt: string; email: string } | null = null;
+
+  const encodeRow = (row: Record<string, unknown>): string => {
+    if (format === 'ndjson') {
+      const record: Record<string, unknown> = {};
+      for (const column of columns) {
+        record[column] = column === 'confirmed' ? !!row[column] : row[column];
+      }
+      return `${JSON.stringify(record)}\n`;
+    }
+
+    return `${columns
+      .map((column) => csvField(column === 'confirmed' ? (row[column] ? 'true' : 'false') : row[column]))
+      .join(',')}\r\n`;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${columns.map(csvField).join(',')}\r\n`));
+      }
+    },
+    async pull(controller) {
+      const conditions = [...filters.conditions];
+      const bindings = [...filters.bindings];
+      if (cursor) {
+        conditions.push(cursorCondition(order));
+        bindings.push(cursor.createdAt, cursor.createdAt, cursor.email);
+      }
+
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')} ` : '';
+
+      try {
+        const { results } = await env.DB
+          .prepare(
+            `SELECT ${selectList}, s.email AS cursor_email, COALESCE(s.created_at, '') AS cursor_created_at ` +
+              `FROM subscriptions s LEFT JOIN profiles p ON p.email = s.email ${where}` +
+              `ORDER BY COALESCE(s.created_at, '') ${direction}, s.email ${direction} LIMIT ?`
+          )
+          .bind(...bindings, EXPORT_BATCH_SIZE)
+          .all<Record<string, unknown>>();
+
+        if (results.length) {
+          controller.enqueue(encoder.encode(results.map(encodeRow).join('')));
+          const last = results[results.length - 1];
+          cursor = { createdAt: String(last.cursor_created_at), email: String(last.cursor_email) };
+        }
+
+        if (results.length < EXPORT_BATCH_SIZE) {
+          controller.close();
+        }
+      } catch (error) {
+        log('Admin export failed', error);
+        controller.error(error);
+      }
+    },
+  });
 
-    if (!existingProfile && !password) {
-      return jsonResponse({ success: false, error: 'Password is required to create a profile.' }, 400);
-    }
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'content-type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+      'content-disposition': `attachment; filename="subscriptions-${date}.${format}"`,
+      'cache-control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Parses RFC 4180 CSV into records, honouring quoted fields that contain
+ * commas, doubled quotes or line breaks. Blank lines are dropped.
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
 
-    if (password && password.length < 8) {
-      return jsonResponse({ success: false, error: 'Password must be at least 8 characters long.' }, 400);
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== '')) {
+      records.push(record);
     }
+    record = [];
+    field = '';
+  };
 
-    const passwordHash = password ? await hashPassword(password) : null;
-    const now = new Date().toISOString();
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
 
-    if (passwordHash) {
-      await env.DB
-        .prepare(
-          'INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?) ' +
-            'ON CONFLICT(email) DO UPDATE SET name = excluded.name, bio = excluded.bio, password_hash = excluded.password_hash, updated_at = excluded.updated_at'
-        )
-        .bind(email, name, bio, passwordHash, now, now)
-        .run();
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      endRecord();
     } else {
-      await env.DB
-        .prepare(
-          'INSERT INTO profiles (email, name, bio, created_at, updated_at) VALUES (?, ?, ?, ?, ?) ' +
-            'ON CONFLICT(email) DO UPDATE SET name = excluded.name, bio = excluded.bio, updated_at = excluded.updated_at'
-        )
-        .bind(email, name, bio, now, now)
-        .run();
+      field += char;
     }
+  }
 
-    const message = existingProfile ? 'Profile updated successfully.' : 'Profile saved successfully.';
-    return jsonResponse({ success: true, message }, 200);
-  } catch (error) {
-    log('Profile handler failed', error);
-    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
+  if (field !== '' || record.length) {
+    endRecord();
   }
+
+  return records;
 }
 
-async function handleLogin(
+function isTruthyParam(value: string | null): boolean {
+  return value === '1' || value === 'true' || value === 'yes';
+}
+
+async function handleAdminImport(
   request: Request,
   env: Env,
   log: (...args: unknown[]) => void
 ): Promise<Response> {
-  if (request.method !== 'POST') {
-    return new Response('Method Not Allowed', {
-      status: 405,
-      headers: { ...CORS_HEADERS, Allow: 'POST,OPTIONS' },
-    });
+  const params = new URL(request.url).searchParams;
+  const dryRun = isTruthyParam(params.get('dryRun'));
+
+  const mode = params.get('mode') ?? 'pending';
+  if (mode !== 'pending' && mode !== 'confirmed') {
+    return jsonResponse({ success: false, error: 'Mode must be pending or confirmed.' }, 400);
   }
 
-  const payload = await parseJson(request, log);
-  if (!payload) {
-    return jsonResponse({ success: false, error: 'Invalid JSON body.' }, 400);
+  const onExisting = params.get('existing') ?? 'skip';
+  if (onExisting !== 'skip' && onExisting !== 'merge') {
+    return jsonResponse({ success: false, error: 'Existing must be skip or merge.' }, 400);
   }
 
-  const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : '';
-  const password = typeof payload.password === 'string' ? payload.password : '';
+  let records: string[][];
+  try {
+    records = parseCsv(await request.text());
+  } catch (error) {
+    log('Failed to read import body', error);
+    return jsonResponse({ success: false, error: 'Invalid CSV body.' }, 400);
+  }
 
-  if (!isValidEmail(email)) {
-    return jsonResponse({ success: false, error: 'Invalid email address.' }, 400);
+  if (!records.length) {
+    return jsonResponse({ success: false, error: 'The CSV file is empty.' }, 400);
   }
 
-  if (!password) {
-    return jsonResponse({ success: false, error: 'Password is required.' }, 400);
+  // A header row is optional: without one the first column holds the email.
+  const header = records[0].map((value) => value.trim().toLowerCase());
+  const hasHeader = header.includes('email');
+  const emailIndex = hasHeader ? header.indexOf('email') : 0;
+  const createdAtIndex = hasHeader ? header.indexOf('created_at') : -1;
+  const dataRows = hasHeader ? records.slice(1) : records;
+  const firstRowNumber = hasHeader ? 2 : 1;
+
+  if (dataRows.length > IMPORT_MAX_ROWS) {
+    return jsonResponse({ success: false, error: `Imports are limited to ${IMPORT_MAX_ROWS} rows.` }, 413);
   }
 
+  const report: ImportRowReport[] = [];
+  const candidates: Array<{ report: ImportRowReport; createdAt: string | null }> = [];
+  const seen = new Set<string>();
+
+  dataRows.forEach((values, index) => {
+    const row = firstRowNumber + index;
+    const email = normalizeEmail(values[emailIndex] ?? '');
+
+    if (!isValidEmail(email)) {
+      report.push({ row, email, status: 'invalid', reason: 'Invalid email address.' });
+      return;
+    }
+
+    if (seen.has(email)) {
+      report.push({ row, email, status: 'duplicate', reason: 'Email appears earlier in this file.' });
+      return;
+    }
+    seen.add(email);
+
+    let createdAt: string | null = null;
+    const rawCreatedAt = createdAtIndex >= 0 ? values[createdAtIndex]?.trim() : '';
+    if (rawCreatedAt) {
+      const timestamp = Date.parse(rawCreatedAt);
+      if (Number.isNaN(timestamp)) {
+        report.push({ row, email, status: 'invalid', reason: 'Invalid created_at date.' });
+        return;
+      }
+      createdAt = new Date(timestamp).toISOString();
+    }
+
+    const entry: ImportRowReport = { row, email, status: 'created' };
+    report.push(entry);
+    candidates.push({ report: entry, createdAt });
+  });
+
   try {
     await ensureSchema(env.DB);
 
-    const profile = await env.DB
-      .prepare('SELECT password_hash FROM profiles WHERE email = ?')
-      .bind(email)
-      .first<{ password_hash: string | null }>();
+    const existing = new Map<string, SubscriptionRecord>();
+    for (let offset = 0; offset < candidates.length; offset += IMPORT_LOOKUP_CHUNK) {
+      const emails = candidates.slice(offset, offset + IMPORT_LOOKUP_CHUNK).map((candidate) => candidate.report.email);
+      const { results } = await env.DB
+        .prepare(
+          'SELECT email, confirmed, confirmation_token, unsubscribed_at FROM subscriptions ' +
+            `WHERE email IN (${emails.map(() => '?').join(', ')})`
+        )
+        .bind(...emails)
+        .all<SubscriptionRecord>();
 
-    if (!profile || !profile.password_hash) {
-      return jsonResponse(
-        {
-          success: false,
-          error: 'We could not find an account with a password for that email. Please create or update your profile first.',
-        },
-        404
-      );
+      for (const record of results) {
+        existing.set(record.email, record);
+      }
     }
 
-    const incomingHash = await hashPassword(password);
-    if (!timingSafeEqual(incomingHash, profile.password_hash)) {
-      return jsonResponse({ success: false, error: 'Incorrect password. Please try again.' }, 401);
-    }
+    const now = new Date().toISOString();
+    // A row's writes, including the confirmation email it queues, travel in
+    // one batch so a row is either imported completely or not at all.
+    const writes: Array<{ entry: ImportRowReport; statements: D1PreparedStatement[] }> = [];
 
-    return jsonResponse({ success: true, message: 'Login successful.' }, 200);
-  } catch (error) {
-    log('Login handler failed', error);
-    return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
-  }
-}
+    const queueConfirmation = async (email: string, token: string): Promise<D1PreparedStatement> => {
+      const link = buildConfirmationLink(request.url, env.SITE_BASE_URL, email, token);
+      const outgoing = await buildOutgoingEmail(env, email, renderEmail('confirmation', { link }), log);
+      return enqueueEmailStatement(env.DB, outgoing).statement;
+    };
 
-async function handleAdminLogin(
-  request: Request,
-  env: Env,
-  log: (...args: unknown[]) => void
-): Promise<Response> {
-  if (request.method !== 'POST') {
-    return new Response('Method Not Allowed', {
-      status: 405,
-      headers: { ...CORS_HEADERS, Allow: 'POST,OPTIONS' },
-    });
-  }
+    const importedConsent = (email: string, event: ConsentEventType): Promise<D1PreparedStatement> =>
+      consentEventStatement(null, env, email, event, 'admin-import', IMPORTED_CONSENT_WORDING);
 
-  const payload = await parseJson(request, log);
-  if (!payload) {
-    return jsonResponse({ success: false, error: 'Invalid JSON body.' }, 400);
-  }
+    for (const { report: entry, createdAt } of candidates) {
+      const current = existing.get(entry.email);
 
-  const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : '';
-  const password = typeof payload.password === 'string' ? payload.password : '';
+      if (current) {
+        if (current.unsubscribed_at) {
+          entry.status = 'skipped';
+          entry.reason = 'Unsubscribed.';
+          continue;
+        }
 
-  if (!isValidEmail(email)) {
-    return jsonResponse({ success: false, error: 'Invalid email address.' }, 400);
-  }
+        if (current.confirmed) {
+          entry.status = 'skipped';
+          entry.reason = 'Already confirmed.';
+          continue;
+        }
 
-  if (!password) {
-    return jsonResponse({ success: false, error: 'Password is required.' }, 400);
-  }
+        if (onExisting === 'skip') {
+          entry.status = 'skipped';
+          entry.reason = 'Already subscribed.';
+          continue;
+        }
 
-  const adminEmail = env.ADMIN_EMAIL?.trim().toLowerCase();
-  const adminPasswordHash = env.ADMIN_PASSWORD_HASH?.trim();
-  const adminPassword = env.ADMIN_PASSWORD ?? '';
+        entry.status = 'merged';
+        if (dryRun) {
+          continue;
+        }
 
-  if (!adminEmail || (!adminPassword && !adminPasswordHash)) {
-    log('Admin login attempted without configured credentials');
-    return jsonResponse(
-      {
-        success: false,
-        error: 'Admin access is not configured.',
-      },
-      503
-    );
-  }
+        if (mode === 'confirmed') {
+          writes.push({
+            entry,
+            statements: [
+              env.DB
+                .prepare(
+                  'UPDATE subscriptions SET confirmed = 1, confirmation_token = NULL, token_created_at = NULL, updated_at = ? WHERE email = ?'
+                )
+                .bind(now, entry.email),
+              await importedConsent(entry.email, 'confirm'),
+            ],
+          });
+        } else {
+          const token = crypto.randomUUID();
+          writes.push({
+            entry,
+            statements: [
+              env.DB
+                .prepare('UPDATE subscriptions SET confirmation_token = ?, token_created_at = ?, updated_at = ? WHERE email = ?')
+                .bind(token, now, now, entry.email),
+              await queueConfirmation(entry.email, token),
+            ],
+          });
+        }
+        continue;
+      }
 
-  if (email !== adminEmail) {
-    return jsonResponse({ success: false, error: 'Incorrect admin credentials.' }, 401);
-  }
+      if (dryRun) {
+        continue;
+      }
 
-  try {
-    if (adminPasswordHash) {
-      const incomingHash = await hashPassword(password);
-      if (!timingSafeEqual(incomingHash, adminPasswordHash)) {
-        return jsonResponse({ success: false, error: 'Incorrect admin credentials.' }, 401);
+      if (mode === 'confirmed') {
+        writes.push({
+          entry,
+          statements: [
+            env.DB
+              .prepare('INSERT INTO subscriptions (email, created_at, updated_at, confirmed) VALUES (?, ?, ?, 1)')
+              .bind(entry.email, createdAt ?? now, now),
+            await importedConsent(entry.email, 'subscribe'),
+            await importedConsent(entry.email, 'confirm'),
+          ],
+        });
+      } else {
+        const token = crypto.randomUUID();
+        writes.push({
+          entry,
+          statements: [
+            env.DB
+              .prepare(
+                'INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token, token_created_at) VALUES (?, ?, 0, ?, ?)'
+              )
+              .bind(entry.email, createdAt ?? now, token, now),
+            await importedConsent(entry.email, 'subscribe'),
+            await queueConfirmation(entry.email, token),
+          ],
+        });
       }
-    } else if (!timingSafeEqual(password, adminPassword)) {
-      return jsonResponse({ success: false, error: 'Incorrect admin credentials.' }, 401);
     }
 
-    return jsonResponse({ success: true, message: 'Admin login successful.' }, 200);
+    // The outbox drain sends the confirmation emails on its own schedule, so
+    // a large import does not try to deliver everything in this request.
+    let stopped = false;
+    for (let offset = 0; offset < writes.length; offset += IMPORT_WRITE_CHUNK) {
+      const chunk = writes.slice(offset, offset + IMPORT_WRITE_CHUNK);
+      try {
+        await env.DB.batch(chunk.flatMap(({ statements }) => statements));
+      } catch (error) {
+        log('Admin import stopped', { row: chunk[0].entry.row, error });
+        for (const { entry } of writes.slice(offset)) {
+          entry.status = 'failed';
+          entry.reason = 'Not imported; the import stopped before this row.';
+        }
+        stopped = true;
+        break;
+      }
+    }
+
+    const summary: Record<ImportRowStatus, number> = {
+      created: 0,
+      merged: 0,
+      skipped: 0,
+      duplicate: 0,
+      invalid: 0,
+      failed: 0,
+    };
+    for (const entry of report) {
+      summary[entry.status] += 1;
+    }
+
+    if (stopped) {
+      return jsonResponse(
+        {
+          success: false,
+          error: 'The import stopped partway. Rows marked failed were not imported; run the file again to finish.',
+          dryRun,
+          mode,
+          existing: onExisting,
+          summary,
+          rows: report,
+        },
+        500
+      );
+    }
+
+    return jsonResponse({ success: true, dryRun, mode, existing: onExisting, summary, rows: report }, 200);
   } catch (error) {
-    log('Admin login handler failed', error);
+    log('Admin import failed', error);
     return jsonResponse({ success: false, error: 'Internal Server Error' }, 500);
   }
 }
@@ -589,57 +3916,63 @@ async function handleSubscribe(
   request: Request,
   env: Env,
   ctx: ExecutionContext,
+  { email, source, consentVersion }: SchemaValues<typeof SUBSCRIBE_BODY>,
   log: (...args: unknown[]) => void
 ): Promise<Response> {
   try {
-    const payload = await parseJson(request, log);
-    if (!payload) {
-      return jsonResponse({ success: false, error: 'Invalid JSON body.' }, 400);
-    }
-
-    const { email } = payload;
-    if (typeof email !== 'string' || !isValidEmail(email)) {
-      return jsonResponse({ success: false, error: 'A valid email address is required.' }, 400);
-    }
-
-    const normalizedEmail = email.trim().toLowerCase();
-
     await ensureSchema(env.DB);
 
     const existing = await env.DB
-      .prepare('SELECT email, confirmed, confirmation_token FROM subscriptions WHERE email = ?')
-      .bind(normalizedEmail)
+      .prepare('SELECT email, confirmed, confirmation_token, unsubscribed_at FROM subscriptions WHERE email = ?')
+      .bind(email)
       .first<SubscriptionRecord>();
 
     const now = new Date().toISOString();
-    let token = crypto.randomUUID();
+    const token = crypto.randomUUID();
+    const consent = await consentEventStatement(
+      request,
+      env,
+      email,
+      'subscribe',
+      source ?? requestSource(request),
+      consentVersion
+    );
 
     if (existing) {
+      if (existing.unsubscribed_at) {
+        return jsonResponse(
+          {
+            success: false,
+            error: 'This email address has unsubscribed. Use the link in any of our emails to resubscribe.',
+          },
+          409
+        );
+      }
+
       if (existing.confirmed) {
         return jsonResponse({ success: true, message: 'Email is already confirmed.' }, 200);
       }
 
-      token = existing.confirmation_token ?? token;
-      await env.DB
-        .prepare('UPDATE subscriptions SET confirmation_token = ?, token_created_at = ?, updated_at = ? WHERE email = ?')
-        .bind(token, now, now, normalizedEmail)
-        .run();
+      await env.DB.batch([
+        env.DB
+          .prepare('UPDATE subscriptions SET confirmation_token = ?, token_created_at = ?, updated_at = ? WHERE email = ?')
+          .bind(token, now, now, email),
+        consent,
+      ]);
     } else {
-      await env.DB
-        .prepare(
-          'INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token, token_created_at) VALUES (?, ?, 0, ?, ?)'
-        )
-        .bind(normalizedEmail, now, token, now)
-        .run();
+      await env.DB.batch([
+        env.DB
+          .prepare(
+            'INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token, token_created_at) VALUES (?, ?, 0, ?, ?)'
+          )
+          .bind(email, now, token, now),
+        consent,
+      ]);
     }
 
-    const confirmationLink = buildConfirmationLink(request.url, env.SITE_BASE_URL, normalizedEmail, token);
+    const confirmationLink = buildConfirmationLink(request.url, env.SITE_BASE_URL, email, token);
 
-    ctx.waitUntil(
-      sendConfirmationEmail(env, normalizedEmail, confirmationLink, log).catch((error) => {
-        log('Failed to send confirmation email', error);
-      })
-    );
+    await queueConfirmationEmail(env, ctx, email, confirmationLink, log);
 
     return jsonResponse(
       {
@@ -654,58 +3987,519 @@ async function handleSubscribe(
   }
 }
 
-export default {
-  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
+const resendConfirmationJson = withBody(EMAIL_BODY, ({ request, env, ctx, log }, body) =>
+  handleConfirmationResend(request, env, ctx, body, false, log)
+);
 
-    if (request.method === 'OPTIONS') {
-      return new Response(null, { status: 204, headers: CORS_HEADERS });
-    }
+/**
+ * Every path the worker answers itself. Auth and rate limits are applied by
+ * the dispatcher before the handler runs; anything not listed here falls
+ * through to the static site, except under /api/ where it is a JSON 404.
+ */
+const ROUTES: AppRoute[] = [
+  {
+    path: '/confirm',
+    methods: ['GET'],
+    handle: ({ request, env, ctx, log }) => handleConfirmation(request, env, ctx, log),
+  },
+  {
+    path: '/unsubscribe',
+    methods: ['GET', 'POST'],
+    handle: ({ request, env, log }) => handleUnsubscribe(request, env, log),
+  },
+  {
+    path: '/login/link',
+    methods: ['GET', 'POST'],
+    handle: ({ request, env, log }) => handleLoginLink(request, env, log),
+  },
+  {
+    path: '/profile/email/verify',
+    methods: ['GET', 'POST'],
+    handle: ({ request, env, log }) => handleEmailChangeVerify(request, env, log),
+  },
+  {
+    path: '/api/check',
+    methods: ['POST'],
+    rateLimit: 'check',
+    handle: withBody(EMAIL_BODY, ({ env }, body) => handleSubscriptionCheck(env, body)),
+  },
+  {
+    path: '/api/subscribe',
+    methods: ['POST'],
+    rateLimit: 'subscribe',
+    handle: withBody(SUBSCRIBE_BODY, ({ request, env, ctx, log }, body) => handleSubscribe(request, env, ctx, body, log)),
+  },
+  {
+    path: '/api/confirm/resend',
+    methods: ['POST'],
+    handle: (call) =>
+      isFormPost(call.request)
+        ? handleConfirmationResendForm(call.request, call.env, call.ctx, call.log)
+        : resendConfirmationJson(call),
+  },
+  {
+    path: '/api/profile',
+    methods: ['POST'],
+    handle: withBody(PROFILE_BODY, ({ request, env, log }, body) => handleProfile(request, env, body, log)),
+  },
+  {
+    path: '/api/profile/setup-link',
+    methods: ['POST'],
+    rateLimit: 'profileLink',
+    handle: withBody(EMAIL_BODY, ({ request, env, ctx, log }, body) =>
+      handleProfileSetupLink(request, env, ctx, body, log)
+    ),
+  },
+  {
+    path: '/api/profile/email',
+    methods: ['POST'],
+    auth: 'member',
+    rateLimit: 'emailChange',
+    handle: withBody(EMAIL_CHANGE_BODY, ({ request, env, ctx, log }, body, session: UserSession) =>
+      handleEmailChangeRequest(request, env, ctx, session, body, log)
+    ),
+  },
+  {
+    path: '/api/account/export',
+    methods: ['GET'],
+    auth: 'member',
+    handle: ({ env, log }, session) => handleAccountExport(env, session, log),
+  },
+  {
+    path: '/api/account/deletion',
+    methods: ['POST'],
+    auth: 'member',
+    handle: withBody(ACCOUNT_DELETION_BODY, ({ request, env, ctx, log }, body, session: UserSession) =>
+      handleAccountDeletion(request, env, ctx, session, body, log)
+    ),
+  },
+  {
+    path: '/api/account/deletion',
+    methods: ['DELETE'],
+    auth: 'member',
+    handle: ({ env, log }, session) => handleAccountDeletionCancel(env, session, log),
+  },
+  {
+    path: '/api/login',
+    methods: ['POST'],
+    rateLimit: 'login',
+    handle: withBody(LOGIN_BODY, ({ request, env, ctx, log }, body) => handleLogin(request, env, ctx, body, log)),
+  },
+  {
+    path: '/api/login/link',
+    methods: ['POST'],
+    rateLimit: 'loginLink',
+    handle: withBody(EMAIL_BODY, ({ request, env, ctx, log }, body) =>
+      handleLoginLinkRequest(request, env, ctx, body, log)
+    ),
+  },
+  {
+    path: '/api/me',
+    methods: ['GET'],
+    auth: 'member',
+    handle: ({ request, env, log }, session) => handleMe(request, env, session, log),
+  },
+  {
+    path: '/api/logout',
+    methods: ['POST'],
+    handle: ({ request, env, log }) => handleLogout(request, env, log),
+  },
+  {
+    path: '/api/password/forgot',
+    methods: ['POST'],
+    rateLimit: 'passwordForgot',
+    handle: withBody(EMAIL_BODY, ({ request, env, ctx, log }, body) => handlePasswordForgot(request, env, ctx, body, log)),
+  },
+  {
+    path: '/api/password/reset',
+    methods: ['POST'],
+    handle: withBody(PASSWORD_RESET_BODY, ({ env, log }, body) => handlePasswordReset(env, body, log)),
+  },
+  {
+    path: '/api/admin/login',
+    methods: ['POST'],
+    rateLimit: 'adminLogin',
+    handle: withBody(LOGIN_BODY, ({ request, env, ctx, log }, body) => handleAdminLogin(request, env, ctx, body, log)),
+  },
+  {
+    path: '/api/admin/logout',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: ({ request, env, log }, session) => handleAdminLogout(request, env, session, log),
+  },
+  {
+    path: '/api/admin/login-attempts',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminLoginAttempts(request, env, log),
+  },
+  {
+    path: '/api/admin/unlock',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(UNLOCK_BODY, ({ env, log }, body, session: UserSession) =>
+      handleAdminUnlock(env, session, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/members/export',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(EMAIL_BODY, ({ env, log }, body, session: UserSession) =>
+      handleAdminMemberExport(env, session, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/members/deletion',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(EMAIL_BODY, ({ request, env, ctx, log }, body, session: UserSession) =>
+      handleAdminMemberDeletion(request, env, ctx, session, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/members/deletion/cancel',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(EMAIL_BODY, ({ env, log }, body, session: UserSession) =>
+      handleAdminMemberDeletionCancel(env, session, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/consent',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminConsent(request, env, log),
+  },
+  {
+    path: '/api/admin/outbox',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminOutbox(request, env, log),
+  },
+  {
+    path: '/api/admin/outbox/requeue',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(OUTBOX_REQUEUE_BODY, ({ env, ctx, log }, body) => handleAdminOutboxRequeue(env, ctx, body, log)),
+  },
+  {
+    path: '/api/admin/email-preview/:template',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, params }) => handleAdminEmailPreview(request, env, params.template),
+  },
+  {
+    path: '/api/admin/broadcasts',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, ctx, log }, session) =>
+      handleAdminBroadcasts(request, env, ctx, session, undefined, undefined, {}, log),
+  },
+  {
+    path: '/api/admin/broadcasts',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(BROADCAST_BODY, ({ request, env, ctx, log }, body, session: UserSession) =>
+      handleAdminBroadcasts(request, env, ctx, session, undefined, undefined, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/broadcasts/:id',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, ctx, params, log }, session) =>
+      handleAdminBroadcasts(request, env, ctx, session, params.id, undefined, {}, log),
+  },
+  {
+    path: '/api/admin/broadcasts/:id',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(BROADCAST_EDIT_BODY, ({ request, env, ctx, params, log }, body, session: UserSession) =>
+      handleAdminBroadcasts(request, env, ctx, session, params.id, undefined, body, log)
+    ),
+  },
+  {
+    path: '/api/admin/broadcasts/:id/recipients',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, ctx, params, log }, session) =>
+      handleAdminBroadcasts(request, env, ctx, session, params.id, 'recipients', {}, log),
+  },
+  {
+    path: '/api/admin/broadcasts/:id/test',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: ({ request, env, ctx, params, log }, session) =>
+      handleAdminBroadcasts(request, env, ctx, session, params.id, 'test', {}, log),
+  },
+  {
+    path: '/api/admin/broadcasts/:id/schedule',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: withBody(
+      BROADCAST_SCHEDULE_BODY,
+      ({ request, env, ctx, params, log }, body, session: UserSession) =>
+        handleAdminBroadcasts(request, env, ctx, session, params.id, 'schedule', body, log),
+      { allowEmpty: true }
+    ),
+  },
+  {
+    path: '/api/admin/broadcasts/:id/cancel',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: ({ request, env, ctx, params, log }, session) =>
+      handleAdminBroadcasts(request, env, ctx, session, params.id, 'cancel', {}, log),
+  },
+  {
+    path: '/api/admin/migrations',
+    methods: ['GET', 'POST'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminMigrations(request, env, log),
+  },
+  {
+    path: '/api/admin/subscriptions',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminSubscriptions(request, env, log),
+  },
+  {
+    path: '/api/admin/export',
+    methods: ['GET'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminExport(request, env, log),
+  },
+  {
+    path: '/api/admin/import',
+    methods: ['POST'],
+    auth: 'admin',
+    handle: ({ request, env, log }) => handleAdminImport(request, env, log),
+  },
+];
 
-    const log = getLogger(ctx);
+/**
+ * Wraps a route handler so it only runs once the JSON body has parsed and
+ * passed `schema`; the handler receives the validated values after the call.
+ * With `allowEmpty`, a request without a body is checked as `{}`.
+ */
+function withBody<S extends BodySchema, A extends unknown[]>(
+  schema: S,
+  handler: (call: RouteCall, body: SchemaValues<S>, ...rest: A) => Promise<Response> | Response,
+  { allowEmpty = false }: { allowEmpty?: boolean } = {}
+): (call: RouteCall, ...rest: A) => Promise<Response> {
+  return async (call, ...rest) => {
+    const empty = allowEmpty && !(await call.request.clone().text()).trim();
+    const payload = empty ? {} : await parseJson(call.request, call.log);
+    if (!payload) {
+      return jsonResponse({ success: false, error: 'Invalid JSON body.', code: 'invalid_json' }, 400);
+    }
 
-    if (url.pathname === '/confirm') {
-      return handleConfirmation(request, env, log);
+    const result = validateBody(schema, payload);
+    if (!result.ok) {
+      return validationErrorResponse(result.fields);
     }
 
-    if (url.pathname === '/api/profile') {
-      return handleProfile(request, env, log);
+    return handler(call, result.values, ...rest);
+  };
+}
+
+function isApiPath(pathname: string): boolean {
+  return pathname === '/api' || pathname.startsWith('/api/');
+}
+
+// Asset serving forgives percent-encoding, letter case, repeated and
+// trailing slashes, so the admin page gate compares a normalized path: any
+// spelling that would reach dashboard.html has to pass the session check.
+function isAdminPage(pathname: string): boolean {
+  let decoded = pathname;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // Malformed escapes are compared as sent.
+  }
+
+  const normalized = decoded.toLowerCase().replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  return ADMIN_PAGES.has(normalized);
+}
+
+function methodNotAllowed(pathname: string, allowed: string[]): Response {
+  const allow = [...allowed, 'OPTIONS'].join(',');
+
+  if (isApiPath(pathname)) {
+    const response = jsonResponse({ success: false, error: 'Method Not Allowed' }, 405);
+    response.headers.set('Allow', allow);
+    return response;
+  }
+
+  return new Response('Method Not Allowed', {
+    status: 405,
+    headers: { ...HTML_HEADERS, Allow: allow },
+  });
+}
+
+async function dispatchRoute(route: AppRoute, call: RouteCall): Promise<Response> {
+  const { request, env, log } = call;
+
+  if (route.rateLimit) {
+    const limited = await enforceRateLimits(request, env, route.rateLimit, log);
+    if (limited) {
+      return limited;
     }
+  }
+
+  if (!route.auth) {
+    return route.handle(call);
+  }
+
+  if (route.auth === 'member') {
+    return requireSession(async (_request, _env, session) => route.handle(call, session))(request, env, log);
+  }
+
+  const adminSession = await loadAdminSession(request, env, log);
+  if (!adminSession) {
+    const response = jsonResponse({ success: false, error: 'Admin authentication required.' }, 401);
+    response.headers.append('set-cookie', buildSessionCookie('admin', '', 0));
+    return response;
+  }
+
+  return route.handle(call, adminSession);
+}
 
-    if (url.pathname === '/api/login') {
-      return handleLogin(request, env, log);
+/**
+ * Origins listed in ALLOWED_ORIGINS (comma separated) may call the API with
+ * credentials. Session cookies are SameSite (Lax for members, Strict for
+ * admins), so browsers only attach them when the caller is on the same site,
+ * such as another subdomain of the API's domain; a page on a different site
+ * gets the CORS headers but no session. Without the setting the API is
+ * same-origin only, which is all the bundled pages need.
+ */
+function allowedCorsOrigin(request: Request, env: Env): string | null {
+  const origin = request.headers.get('origin');
+  if (!origin || !env.ALLOWED_ORIGINS) {
+    return null;
+  }
+
+  for (const entry of env.ALLOWED_ORIGINS.split(',')) {
+    try {
+      if (new URL(entry.trim()).origin === origin) {
+        return origin;
+      }
+    } catch {
+      // Ignore malformed entries rather than failing every request.
     }
+  }
+
+  return null;
+}
+
+function withCors(request: Request, env: Env, response: Response): Response {
+  const origin = allowedCorsOrigin(request, env);
+  if (!origin) {
+    return response;
+  }
+
+  // Static assets and redirects come back with immutable headers.
+  const corsResponse = new Response(response.body, response);
+  corsResponse.headers.set('access-control-allow-origin', origin);
+  corsResponse.headers.set('access-control-allow-credentials', 'true');
+  corsResponse.headers.append('vary', 'Origin');
+  return corsResponse;
+}
+
+function handlePreflight(request: Request, env: Env, pathname: string): Response | null {
+  const methods = routeMethods(ROUTES, pathname);
+  if (methods.length === 0) {
+    return null;
+  }
+
+  const allow = [...methods, 'OPTIONS'].join(',');
+  const headers: Record<string, string> = { Allow: allow };
+
+  if (allowedCorsOrigin(request, env)) {
+    headers['access-control-allow-methods'] = allow;
+    headers['access-control-allow-headers'] = CORS_ALLOWED_HEADERS;
+    headers['access-control-max-age'] = String(CORS_PREFLIGHT_MAX_AGE_SECONDS);
+  }
+
+  return new Response(null, { status: 204, headers });
+}
+
+async function routeRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
 
-    if (url.pathname === '/api/admin/login') {
-      return handleAdminLogin(request, env, log);
+  if (request.method === 'OPTIONS') {
+    const preflight = handlePreflight(request, env, url.pathname);
+    if (preflight) {
+      return preflight;
     }
+  }
 
-    if (url.pathname === '/api/check') {
-      if (request.method !== 'POST') {
-        return new Response('Method Not Allowed', {
-          status: 405,
-          headers: { ...CORS_HEADERS, Allow: 'POST,OPTIONS' },
-        });
-      }
+  const log = getLogger(ctx);
+  const resolved = resolveRoute(ROUTES, request.method, url.pathname);
 
-      return handleSubscriptionCheck(request, env, log);
+  if (resolved.status === 'matched') {
+    return dispatchRoute(resolved.route, { request, env, ctx, params: resolved.params, log });
+  }
+
+  if (resolved.status === 'method-not-allowed') {
+    return methodNotAllowed(url.pathname, resolved.allowed);
+  }
+
+  if (isApiPath(url.pathname)) {
+    return jsonResponse({ success: false, error: 'Not Found' }, 404);
+  }
+
+  if (isAdminPage(url.pathname)) {
+    const adminSession = await loadAdminSession(request, env, log);
+    if (!adminSession) {
+      return Response.redirect(new URL('/admin.html', url).toString(), 302);
     }
+  }
 
-    if (url.pathname === '/api/subscribe') {
-      if (request.method !== 'POST') {
-        return new Response('Method Not Allowed', {
-          status: 405,
-          headers: { ...CORS_HEADERS, Allow: 'POST,OPTIONS' },
-        });
-      }
+  if (env.ASSETS) {
+    return env.ASSETS.fetch(request);
+  }
+
+  return new Response('Not Found', { status: 404 });
+}
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return withCors(request, env, await routeRequest(request, env, ctx));
+  },
 
-      return handleSubscribe(request, env, ctx, log);
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const log = getLogger(ctx);
+
+    await ensureSchema(env.DB);
+
+    // Each job fails on its own, so a broken broadcast cannot hold up mail
+    // retries or account erasures that are due.
+    try {
+      const broadcasts = await advanceBroadcasts(env, log);
+      if (broadcasts.started + broadcasts.queued + broadcasts.completed > 0) {
+        log('Broadcasts advanced', broadcasts);
+      }
+    } catch (error) {
+      log('Advancing broadcasts failed', error);
     }
 
-    if (env.ASSETS) {
-      return env.ASSETS.fetch(request);
+    try {
+      const summary = await drainOutbox(env, log);
+      if (summary.sent + summary.retry + summary.dead > 0) {
+        log('Outbox drained', summary);
+      }
+    } catch (error) {
+      log('Draining the outbox failed', error);
     }
 
-    return new Response('Not Found', { status: 404 });
+    try {
+      const deleted = await processAccountDeletions(env, log);
+      if (deleted > 0) {
+        log('Accounts deleted', { deleted });
+      }
+    } catch (error) {
+      log('Processing account deletions failed', error);
+    }
   },
 };
@@ -0,0 +1,20 @@
+export { memoryOutbox } from './local';
+export {
+  OUTBOX_MAX_ATTEMPTS,
+  deliverQueuedEmail,
+  drainOutbox,
+  enqueueEmail,
+  enqueueEmailStatement,
+  type OutboxRow,
+  type OutboxStatus,
+} from './outbox';
+export { resolveMailTransport, type MailEnv } from './resolve';
+export {
+  EMAIL_TEMPLATE_NAMES,
+  isEmailTemplateName,
+  renderEmail,
+  renderSampleEmail,
+  type EmailTemplateName,
+  type RenderedEmail,
+} from './templates';
+export type { CapturedEmail, MailTransport, OutgoingEmail } from './transport';
@@ -0,0 +1,41 @@
+import type { CapturedEmail, MailSender, MailTransport } from './transport';
+
+/**
+ * Messages captured by the `memory` transport. The list lives for the life of
+ * the isolate, so tests should clear it between cases.
+ */
+export const memoryOutbox: CapturedEmail[] = [];
+
+export function createMemoryTransport(from: MailSender, outbox: CapturedEmail[] = memoryOutbox): MailTransport {
+  return {
+    name: 'memory',
+    async send(message) {
+      outbox.push({ ...message, from, capturedAt: new Date().toISOString() });
+    },
+  };
+}
+
+/** Writes messages to the `captured_emails` table instead of delivering them. */
+export function createD1CaptureTransport(db: D1Database, from: MailSender): MailTransport {
+  return {
+    name: 'local',
+    async send(message, log) {
+      await db
+        .prepare(
+          'INSERT INTO captured_emails (recipient, from_email, from_name, subject, text_body, html_body, headers, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+        )
+        .bind(
+          message.to,
+          from.email,
+          from.name,
+          message.subject,
+          message.text,
+          message.html,
+          JSON.stringify(message.headers),
+          new Date().toISOString()
+        )
+        .run();
+      log('Captured email locally', { to: message.to, subject: message.subject });
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { MailSender, MailTransport } from './transport';
+
+export interface MailChannelsOptions {
+  from: MailSender;
+  dkimDomain?: string;
+  dkimSelector?: string;
+}
+
+export function createMailChannelsTransport(options: MailChannelsOptions): MailTransport {
+  return {
+    name: 'mailchannels',
+    async send(message, log) {
+      const personalization: Record<string, unknown> = {
+        to: [{ email: message.to }],
+      };
+
+      if (options.dkimDomain) {
+        personalization['dkim_domain'] = options.dkimDomain;
+      }
+
+      if (options.dkimSelector) {
+        personalization['dkim_selector'] = options.dkimSelector;
+      }
+
+      const response = await fetch('https://api.mailchannels.net/tx/v1/send', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          personalizations: [personalization],
+          from: options.from,
+          headers: message.headers,
+          subject: message.subject,
+          content: [
+            {
+              type: 'text/plain',
+              value: message.text,
+            },
+            {
+              type: 'text/html',
+              value: message.html,
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        log('MailChannels error', response.status, errorText);
+        throw new Error(`MailChannels request failed with status ${response.status}`);
+      }
+    },
+  };
+}
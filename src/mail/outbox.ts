@@ -0,0 +1,150 @@
+import { resolveMailTransport, type MailEnv } from './resolve';
+import type { OutgoingEmail } from './transport';
+
+export const OUTBOX_MAX_ATTEMPTS = 6;
+const OUTBOX_RETRY_BASE_SECONDS = 60;
+const OUTBOX_RETRY_MAX_SECONDS = 6 * 60 * 60;
+const OUTBOX_BATCH_SIZE = 50;
+
+export type OutboxStatus = 'pending' | 'sent' | 'dead';
+
+export type DeliveryResult = 'sent' | 'retry' | 'dead' | 'skipped';
+
+export interface OutboxRow {
+  id: string;
+  recipient: string;
+  subject: string;
+  text_body: string;
+  html_body: string;
+  headers: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_SECONDS * 2 ** Math.max(0, attempt - 1), OUTBOX_RETRY_MAX_SECONDS);
+}
+
+function generateOutboxId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The insert that queues `message`, for callers that write it in the same
+ * batch as the change it reports on.
+ */
+export function enqueueEmailStatement(
+  db: D1Database,
+  message: OutgoingEmail
+): { id: string; statement: D1PreparedStatement } {
+  const id = generateOutboxId();
+  const now = new Date().toISOString();
+
+  const statement = db
+    .prepare(
+      "INSERT INTO email_outbox (id, recipient, subject, text_body, html_body, headers, status, attempts, next_attempt_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)"
+    )
+    .bind(id, message.to, message.subject, message.text, message.html, JSON.stringify(message.headers), now, now, now);
+
+  return { id, statement };
+}
+
+export async function enqueueEmail(db: D1Database, message: OutgoingEmail): Promise<string> {
+  const { id, statement } = enqueueEmailStatement(db, message);
+  await statement.run();
+  return id;
+}
+
+/**
+ * Makes one delivery attempt. The row is claimed first by bumping its attempt
+ * count and pushing next_attempt_at out to the retry time, so a cron run and
+ * an inline attempt cannot both pick the same message up.
+ */
+export async function deliverQueuedEmail(
+  env: MailEnv,
+  id: string,
+  message: OutgoingEmail,
+  previousAttempts: number,
+  log: (...args: unknown[]) => void
+): Promise<DeliveryResult> {
+  const now = new Date();
+  const attempt = previousAttempts + 1;
+  const retryAt = new Date(now.getTime() + retryDelaySeconds(attempt) * 1000).toISOString();
+
+  const claimed = await env.DB
+    .prepare(
+      "UPDATE email_outbox SET attempts = ?, next_attempt_at = ?, updated_at = ? WHERE id = ? AND status = 'pending' AND attempts = ? AND next_attempt_at <= ?"
+    )
+    .bind(attempt, retryAt, now.toISOString(), id, previousAttempts, now.toISOString())
+    .run<{ meta?: { changes?: number } }>();
+
+  if (claimed?.meta?.changes === 0) {
+    return 'skipped';
+  }
+
+  try {
+    await resolveMailTransport(env).send(message, log);
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (attempt >= OUTBOX_MAX_ATTEMPTS) {
+      await env.DB
+        .prepare("UPDATE email_outbox SET status = 'dead', last_error = ?, updated_at = ? WHERE id = ?")
+        .bind(lastError, new Date().toISOString(), id)
+        .run();
+      log('Email delivery failed permanently', { id, attempt, error: lastError });
+      return 'dead';
+    }
+
+    await env.DB
+      .prepare('UPDATE email_outbox SET last_error = ?, updated_at = ? WHERE id = ?')
+      .bind(lastError, new Date().toISOString(), id)
+      .run();
+    log('Email delivery failed; will retry', { id, attempt, retryAt, error: lastError });
+    return 'retry';
+  }
+
+  // Bodies carry confirmation and reset links, so they are dropped once delivered.
+  const sentAt = new Date().toISOString();
+  await env.DB
+    .prepare(
+      "UPDATE email_outbox SET status = 'sent', sent_at = ?, text_body = '', html_body = '', last_error = NULL, updated_at = ? WHERE id = ?"
+    )
+    .bind(sentAt, sentAt, id)
+    .run();
+  return 'sent';
+}
+
+export async function drainOutbox(
+  env: MailEnv,
+  log: (...args: unknown[]) => void,
+  limit = OUTBOX_BATCH_SIZE
+): Promise<Record<DeliveryResult, number>> {
+  const { results } = await env.DB
+    .prepare(
+      "SELECT * FROM email_outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at, created_at LIMIT ?"
+    )
+    .bind(new Date().toISOString(), limit)
+    .all<OutboxRow>();
+
+  const summary: Record<DeliveryResult, number> = { sent: 0, retry: 0, dead: 0, skipped: 0 };
+
+  for (const row of results) {
+    const message: OutgoingEmail = {
+      to: row.recipient,
+      subject: row.subject,
+      text: row.text_body,
+      html: row.html_body,
+      headers: JSON.parse(row.headers) as Record<string, string>,
+    };
+    summary[await deliverQueuedEmail(env, row.id, message, row.attempts, log)] += 1;
+  }
+
+  return summary;
+}
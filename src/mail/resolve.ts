@@ -0,0 +1,55 @@
+import { createD1CaptureTransport, createMemoryTransport } from './local';
+import { createMailChannelsTransport } from './mailchannels';
+import { createSendGridTransport } from './sendgrid';
+import type { MailTransport } from './transport';
+
+export interface MailEnv {
+  DB: D1Database;
+  MAIL_TRANSPORT?: string;
+  MAIL_FROM_EMAIL?: string;
+  MAIL_FROM_NAME?: string;
+  MAILCHANNELS_DOMAIN?: string;
+  MAILCHANNELS_SUBDOMAIN?: string;
+  SENDGRID_API_KEY?: string;
+  SENDGRID_FROM_EMAIL?: string;
+  SENDGRID_FROM_NAME?: string;
+}
+
+/**
+ * Picks the transport named by MAIL_TRANSPORT. Without one, a configured
+ * SendGrid key wins and MailChannels is the fallback, matching what the Pages
+ * function has always done.
+ */
+export function resolveMailTransport(env: MailEnv): MailTransport {
+  const from = {
+    email: env.MAIL_FROM_EMAIL ?? 'noreply@example.com',
+    name: env.MAIL_FROM_NAME ?? 'Solar Roots',
+  };
+  const choice = env.MAIL_TRANSPORT?.trim().toLowerCase() || (env.SENDGRID_API_KEY ? 'sendgrid' : 'mailchannels');
+
+  switch (choice) {
+    case 'mailchannels':
+      return createMailChannelsTransport({
+        from,
+        dkimDomain: env.MAILCHANNELS_DOMAIN,
+        dkimSelector: env.MAILCHANNELS_SUBDOMAIN,
+      });
+    case 'sendgrid':
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error('MAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set');
+      }
+      return createSendGridTransport({
+        apiKey: env.SENDGRID_API_KEY,
+        from: {
+          email: env.SENDGRID_FROM_EMAIL ?? from.email,
+          name: env.SENDGRID_FROM_NAME ?? from.name,
+        },
+      });
+    case 'local':
+      return createD1CaptureTransport(env.DB, from);
+    case 'memory':
+      return createMemoryTransport(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${choice}"`);
+  }
+}
@@ -0,0 +1,48 @@
+import type { MailSender, MailTransport } from './transport';
+
+export interface SendGridOptions {
+  apiKey: string;
+  from: MailSender;
+}
+
+export function createSendGridTransport(options: SendGridOptions): MailTransport {
+  return {
+    name: 'sendgrid',
+    async send(message, log) {
+      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          authorization: `Bearer ${options.apiKey}`,
+        },
+        body: JSON.stringify({
+          personalizations: [
+            {
+              to: [{ email: message.to }],
+            },
+          ],
+          from: options.from,
+          // SendGrid rejects an empty headers object.
+          ...(Object.keys(message.headers).length > 0 ? { headers: message.headers } : {}),
+          subject: message.subject,
+          content: [
+            {
+              type: 'text/plain',
+              value: message.text,
+            },
+            {
+              type: 'text/html',
+              value: message.html,
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        log('SendGrid error', response.status, errorText);
+        throw new Error(`SendGrid request failed with status ${response.status}`);
+      }
+    },
+  };
+}
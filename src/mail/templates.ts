@@ -0,0 +1,159 @@
+import { decodeHtml, escapeHtml } from '../html';
+
+type TemplateValue = string | number | boolean | null | undefined;
+
+export interface TemplateVariables {
+  confirmation: { link: string };
+  welcome: { profileLink?: string };
+  profileSetup: { link: string };
+  passwordReset: { link: string };
+  loginLink: { link: string };
+  emailChangeVerify: { link: string };
+  emailChangeNotice: { newEmail: string; resetLink: string };
+  accountDeletion: { date: string; cancelLink?: string };
+  accountLocked: { attempts: number; until: string; resetLink?: string };
+  broadcast: { subject: string; body: string; unsubscribeLink?: string };
+}
+
+export type EmailTemplateName = keyof TemplateVariables;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTemplate<V> {
+  subject: string;
+  /**
+   * Body markup. `{{name}}` inserts an escaped variable, `{{{name}}}` inserts
+   * trusted markup as-is, `{{#name}}…{{/name}}` keeps its contents only
+   * when the variable is set and `{{^name}}…{{/name}}` only when it is not.
+   * Keep punctuation away from the end of a link: the text part puts the URL
+   * right after the label.
+   */
+  html: string;
+  sample(baseUrl: string): V;
+}
+
+const TEMPLATES: { [N in EmailTemplateName]: EmailTemplate<TemplateVariables[N]> } = {
+  confirmation: {
+    subject: 'Confirm your Solar Roots subscription',
+    html: '<p>Thanks for subscribing to Solar Roots!</p><p><a href="{{link}}">Click here to confirm your email address</a></p>',
+    sample: (baseUrl) => ({ link: `${baseUrl}/confirm?token=sample-token&email=sunny%40example.com` }),
+  },
+  welcome: {
+    subject: 'Welcome to Solar Roots',
+    html: '<p>Your subscription is confirmed. Welcome to Solar Roots!</p><p>We will write when there is news to share.</p>{{#profileLink}}<p>In the meantime you can <a href="{{profileLink}}">set up your profile</a> within the next 7 days</p>{{/profileLink}}',
+    sample: (baseUrl) => ({ profileLink: `${baseUrl}/signup.html?token=sample-token` }),
+  },
+  profileSetup: {
+    subject: 'Set up your Solar Roots profile',
+    html: '<p>Here is your link to create a Solar Roots profile. It works once and expires in 7 days.</p><p><a href="{{link}}">Create your profile</a></p><p>If you did not ask for this, you can ignore this email.</p>',
+    sample: (baseUrl) => ({ link: `${baseUrl}/signup.html?token=sample-token` }),
+  },
+  passwordReset: {
+    subject: 'Reset your Solar Roots password',
+    html: '<p>We received a request to reset your Solar Roots password.</p><p><a href="{{link}}">Choose a new password</a> within the next hour.</p><p>If you did not ask for this, you can ignore this email.</p>',
+    sample: (baseUrl) => ({ link: `${baseUrl}/reset-password.html?token=sample-token` }),
+  },
+  loginLink: {
+    subject: 'Your Solar Roots sign-in link',
+    html: '<p>Here is your link to sign in to Solar Roots. It works once and expires in 15 minutes.</p><p><a href="{{link}}">Sign in to Solar Roots</a></p><p>If you did not ask for this, you can ignore this email.</p>',
+    sample: (baseUrl) => ({ link: `${baseUrl}/login/link?token=sample-token` }),
+  },
+  emailChangeVerify: {
+    subject: 'Confirm your new Solar Roots email address',
+    html: '<p>You asked to move your Solar Roots account to this address.</p><p><a href="{{link}}">Confirm your new email address</a> within the next 24 hours.</p><p>If you did not ask for this, you can ignore this email.</p>',
+    sample: (baseUrl) => ({ link: `${baseUrl}/profile/email/verify?token=sample-token` }),
+  },
+  emailChangeNotice: {
+    subject: 'Your Solar Roots email address is changing',
+    html: '<p>Someone signed in to your Solar Roots account asked to move it to {{newEmail}}.</p><p>Nothing changes until that address is confirmed. If this was not you, <a href="{{resetLink}}">reset your password</a> straight away, which also cancels the request.</p>',
+    sample: (baseUrl) => ({ newEmail: 'new-sunny@example.com', resetLink: `${baseUrl}/reset-password.html` }),
+  },
+  accountDeletion: {
+    subject: 'Your Solar Roots account will be deleted',
+    html: '<p>We received a request to delete your Solar Roots account.</p><p>On {{date}} we will erase your subscription, your profile and everything else we hold about you. This cannot be undone.</p>{{#cancelLink}}<p>Changed your mind? <a href="{{cancelLink}}">Sign in</a> before then and cancel the request.</p>{{/cancelLink}}{{^cancelLink}}<p>Changed your mind? Reply to this email before then and we will cancel the request.</p>{{/cancelLink}}',
+    sample: (baseUrl) => ({
+      date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toUTCString(),
+      cancelLink: `${baseUrl}/login.html`,
+    }),
+  },
+  accountLocked: {
+    subject: 'Sign-in to your Solar Roots account was paused',
+    html: '<p>We paused sign-in to your Solar Roots account after {{attempts}} failed attempts.</p><p>You can try again after {{until}}.</p>{{#resetLink}}<p>If this was not you, <a href="{{resetLink}}">choose a new password</a> as soon as you can.</p>{{/resetLink}}',
+    sample: (baseUrl) => ({
+      attempts: 5,
+      until: new Date(Date.now() + 30 * 60 * 1000).toUTCString(),
+      resetLink: `${baseUrl}/reset-password.html`,
+    }),
+  },
+  broadcast: {
+    subject: '{{subject}}',
+    html: '{{{body}}}{{#unsubscribeLink}}<p>You are receiving this because you joined the Solar Roots waitlist. <a href="{{unsubscribeLink}}">Unsubscribe</a> at any time.</p>{{/unsubscribeLink}}',
+    sample: (baseUrl) => ({
+      subject: 'Solar Roots is growing',
+      body: '<h1>Spring update</h1><p>Here is what the community has been building this season.</p>',
+      unsubscribeLink: `${baseUrl}/unsubscribe?email=sunny%40example.com&token=sample-token`,
+    }),
+  },
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(TEMPLATES) as EmailTemplateName[];
+
+function interpolate(source: string, variables: Record<string, TemplateValue>, escape: (value: string) => string): string {
+  return source
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_match, kind: string, name: string, inner: string) => {
+      const value = variables[name];
+      const set = !(value === undefined || value === null || value === false || value === '');
+      return set === (kind === '#') ? inner : '';
+    })
+    .replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_match, rawName: string | undefined, name: string | undefined) => {
+      const key = (rawName ?? name) as string;
+      const value = variables[key];
+      if (value === undefined || value === null) {
+        throw new Error(`Missing email template variable "${key}"`);
+      }
+      return rawName ? String(value) : escape(String(value));
+    });
+}
+
+/** Derives the plain-text part from rendered markup; links become `label: url`. */
+export function htmlToText(html: string): string {
+  return decodeHtml(
+    html
+      .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => `${label}: ${href}`)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/li>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|ul|ol)>/gi, '\n\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(TEMPLATES, name);
+}
+
+export function renderEmail<N extends EmailTemplateName>(name: N, variables: TemplateVariables[N]): RenderedEmail {
+  const template = TEMPLATES[name] as EmailTemplate<TemplateVariables[N]>;
+  const values = variables as unknown as Record<string, TemplateValue>;
+  const html = interpolate(template.html, values, escapeHtml);
+
+  return {
+    subject: interpolate(template.subject, values, (value) => value),
+    html,
+    text: htmlToText(html),
+  };
+}
+
+export function renderSampleEmail<N extends EmailTemplateName>(name: N, baseUrl: string): RenderedEmail {
+  const template: EmailTemplate<TemplateVariables[N]> = TEMPLATES[name];
+  return renderEmail(name, template.sample(baseUrl));
+}
@@ -0,0 +1,22 @@
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers: Record<string, string>;
+}
+
+export interface MailSender {
+  email: string;
+  name: string;
+}
+
+export interface CapturedEmail extends OutgoingEmail {
+  from: MailSender;
+  capturedAt: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: OutgoingEmail, log: (...args: unknown[]) => void): Promise<void>;
+}
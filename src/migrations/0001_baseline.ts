@@ -0,0 +1,43 @@
+import { ensureColumn, type Migration } from './migration';
+
+// Databases created before versioned migrations may hold any subset of these
+// tables and columns, so the baseline only adds what is missing.
+export const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS subscriptions (email TEXT PRIMARY KEY, created_at TEXT NOT NULL, updated_at TEXT, confirmed INTEGER NOT NULL DEFAULT 0, confirmation_token TEXT, token_created_at TEXT)'
+      )
+      .run();
+
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS profiles (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, name TEXT NOT NULL, bio TEXT NOT NULL, password_hash TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, FOREIGN KEY(email) REFERENCES subscriptions(email))'
+      )
+      .run();
+
+    await db
+      .prepare(
+        "CREATE TABLE IF NOT EXISTS sessions (id TEXT PRIMARY KEY, email TEXT NOT NULL, role TEXT NOT NULL DEFAULT 'member', created_at TEXT NOT NULL, expires_at TEXT NOT NULL)"
+      )
+      .run();
+
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS password_resets (token_hash TEXT PRIMARY KEY, email TEXT NOT NULL, created_at TEXT NOT NULL, expires_at TEXT NOT NULL, used_at TEXT)'
+      )
+      .run();
+
+    await ensureColumn(db, 'subscriptions', 'created_at', 'TEXT');
+    await ensureColumn(db, 'subscriptions', 'updated_at', 'TEXT');
+    await ensureColumn(db, 'subscriptions', 'confirmed', 'INTEGER NOT NULL DEFAULT 0');
+    await ensureColumn(db, 'subscriptions', 'confirmation_token', 'TEXT');
+    await ensureColumn(db, 'subscriptions', 'token_created_at', 'TEXT');
+    await ensureColumn(db, 'subscriptions', 'unsubscribed_at', 'TEXT');
+    await ensureColumn(db, 'subscriptions', 'unsubscribe_reason', 'TEXT');
+    await ensureColumn(db, 'profiles', 'password_hash', 'TEXT');
+    await ensureColumn(db, 'sessions', 'role', "TEXT NOT NULL DEFAULT 'member'");
+  },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from './migration';
+
+export const rateLimits: Migration = {
+  version: 2,
+  name: 'rate_limits',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS rate_limit_hits (id INTEGER PRIMARY KEY AUTOINCREMENT, key TEXT NOT NULL, hit_at INTEGER NOT NULL, expires_at INTEGER NOT NULL)'
+      )
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS rate_limit_hits_key ON rate_limit_hits (key, hit_at)').run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS rate_limit_hits_expires ON rate_limit_hits (expires_at)').run();
+  },
+};
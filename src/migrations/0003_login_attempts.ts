@@ -0,0 +1,26 @@
+import type { Migration } from './migration';
+
+export const loginAttempts: Migration = {
+  version: 3,
+  name: 'login_attempts',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS login_attempts (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL, role TEXT NOT NULL, outcome TEXT NOT NULL, ip TEXT, user_agent TEXT, created_at TEXT NOT NULL)'
+      )
+      .run();
+    await db
+      .prepare('CREATE INDEX IF NOT EXISTS login_attempts_email ON login_attempts (email, role, created_at)')
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS login_attempts_created ON login_attempts (created_at)').run();
+
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS account_lockouts (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL, role TEXT NOT NULL, locked_at TEXT NOT NULL, locked_until TEXT NOT NULL, unlocked_at TEXT, unlocked_by TEXT)'
+      )
+      .run();
+    await db
+      .prepare('CREATE INDEX IF NOT EXISTS account_lockouts_email ON account_lockouts (email, role, locked_until)')
+      .run();
+  },
+};
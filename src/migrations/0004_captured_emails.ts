@@ -0,0 +1,13 @@
+import type { Migration } from './migration';
+
+export const capturedEmails: Migration = {
+  version: 4,
+  name: 'captured_emails',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS captured_emails (id INTEGER PRIMARY KEY AUTOINCREMENT, recipient TEXT NOT NULL, from_email TEXT NOT NULL, from_name TEXT NOT NULL, subject TEXT NOT NULL, text_body TEXT NOT NULL, html_body TEXT NOT NULL, headers TEXT NOT NULL, created_at TEXT NOT NULL)'
+      )
+      .run();
+  },
+};
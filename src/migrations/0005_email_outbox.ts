@@ -0,0 +1,16 @@
+import type { Migration } from './migration';
+
+export const emailOutbox: Migration = {
+  version: 5,
+  name: 'email_outbox',
+  async up(db) {
+    await db
+      .prepare(
+        "CREATE TABLE IF NOT EXISTS email_outbox (id TEXT PRIMARY KEY, recipient TEXT NOT NULL, subject TEXT NOT NULL, text_body TEXT NOT NULL, html_body TEXT NOT NULL, headers TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'pending', attempts INTEGER NOT NULL DEFAULT 0, next_attempt_at TEXT NOT NULL, last_error TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, sent_at TEXT)"
+      )
+      .run();
+    await db
+      .prepare('CREATE INDEX IF NOT EXISTS email_outbox_due ON email_outbox (status, next_attempt_at)')
+      .run();
+  },
+};
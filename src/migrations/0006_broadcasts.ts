@@ -0,0 +1,23 @@
+import type { Migration } from './migration';
+
+export const broadcasts: Migration = {
+  version: 6,
+  name: 'broadcasts',
+  async up(db) {
+    await db
+      .prepare(
+        "CREATE TABLE IF NOT EXISTS broadcasts (id TEXT PRIMARY KEY, subject TEXT NOT NULL, html_body TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'draft', scheduled_at TEXT, created_by TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL, started_at TEXT, completed_at TEXT)"
+      )
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS broadcasts_status ON broadcasts (status, scheduled_at)').run();
+
+    await db
+      .prepare(
+        "CREATE TABLE IF NOT EXISTS broadcast_recipients (broadcast_id TEXT NOT NULL, email TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'pending', outbox_id TEXT, updated_at TEXT NOT NULL, PRIMARY KEY (broadcast_id, email))"
+      )
+      .run();
+    await db
+      .prepare('CREATE INDEX IF NOT EXISTS broadcast_recipients_status ON broadcast_recipients (broadcast_id, status)')
+      .run();
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from './migration';
+
+export const emailTokens: Migration = {
+  version: 7,
+  name: 'email_tokens',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS email_tokens (token_hash TEXT PRIMARY KEY, purpose TEXT NOT NULL, email TEXT NOT NULL, created_at TEXT NOT NULL, expires_at TEXT NOT NULL, used_at TEXT)'
+      )
+      .run();
+    await db
+      .prepare('CREATE INDEX IF NOT EXISTS email_tokens_email ON email_tokens (email, purpose)')
+      .run();
+  },
+};
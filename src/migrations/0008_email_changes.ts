@@ -0,0 +1,18 @@
+import type { Migration } from './migration';
+
+// One row per requested address change. Rows are never deleted: completed
+// ones record which addresses a member has used, and cancelled ones the
+// requests that were superseded or revoked.
+export const emailChanges: Migration = {
+  version: 8,
+  name: 'email_changes',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS email_changes (id INTEGER PRIMARY KEY AUTOINCREMENT, old_email TEXT NOT NULL, new_email TEXT NOT NULL, requested_at TEXT NOT NULL, completed_at TEXT, cancelled_at TEXT)'
+      )
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS email_changes_old_email ON email_changes (old_email)').run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS email_changes_new_email ON email_changes (new_email)').run();
+  },
+};
@@ -0,0 +1,18 @@
+import type { Migration } from './migration';
+
+// Deletion requests wait out a grace period before the cron erases the
+// account. Once a request completes its email is cleared and only the hash
+// remains, so the row can show that a deletion happened without saying whose.
+export const accountDeletions: Migration = {
+  version: 9,
+  name: 'account_deletions',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS account_deletions (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT, email_hash TEXT NOT NULL, requested_by TEXT NOT NULL, requested_at TEXT NOT NULL, delete_after TEXT NOT NULL, cancelled_at TEXT, completed_at TEXT)'
+      )
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS account_deletions_email ON account_deletions (email)').run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS account_deletions_due ON account_deletions (delete_after)').run();
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from './migration';
+
+// Proof of how and when each address opted in or out. Rows are only ever
+// inserted; the trigger rejects edits, and rows are removed only when the
+// member's whole account is erased.
+export const consentEvents: Migration = {
+  version: 10,
+  name: 'consent_events',
+  async up(db) {
+    await db
+      .prepare(
+        'CREATE TABLE IF NOT EXISTS consent_events (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL, event TEXT NOT NULL, ip_hash TEXT, user_agent TEXT, source TEXT NOT NULL, wording_version TEXT NOT NULL, created_at TEXT NOT NULL)'
+      )
+      .run();
+    await db.prepare('CREATE INDEX IF NOT EXISTS consent_events_email ON consent_events (email, id)').run();
+    await db
+      .prepare(
+        "CREATE TRIGGER IF NOT EXISTS consent_events_append_only BEFORE UPDATE ON consent_events BEGIN SELECT RAISE(ABORT, 'consent_events is append-only'); END"
+      )
+      .run();
+  },
+};
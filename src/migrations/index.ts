@@ -0,0 +1,102 @@
+import { baseline } from './0001_baseline';
+import { rateLimits } from './0002_rate_limits';
+import { loginAttempts } from './0003_login_attempts';
+import { capturedEmails } from './0004_captured_emails';
+import { emailOutbox } from './0005_email_outbox';
+import { broadcasts } from './0006_broadcasts';
+import { emailTokens } from './0007_email_tokens';
+import { emailChanges } from './0008_email_changes';
+import { accountDeletions } from './0009_account_deletions';
+import { consentEvents } from './0010_consent_events';
+import type { Migration } from './migration';
+
+export type { Migration } from './migration';
+
+// Append new migrations here with the next version number. Never edit or
+// reorder one that has shipped.
+export const MIGRATIONS: readonly Migration[] = [
+  baseline,
+  rateLimits,
+  loginAttempts,
+  capturedEmails,
+  emailOutbox,
+  broadcasts,
+  emailTokens,
+  emailChanges,
+  accountDeletions,
+  consentEvents,
+];
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: { version: number; name: string }[];
+}
+
+async function ensureMigrationsTable(db: D1Database): Promise<void> {
+  await db
+    .prepare(
+      'CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)'
+    )
+    .run();
+}
+
+async function currentVersion(db: D1Database): Promise<number> {
+  const row = await db
+    .prepare('SELECT MAX(version) AS version FROM schema_migrations')
+    .first<{ version: number | null }>();
+  return row?.version ?? 0;
+}
+
+/**
+ * Applies every migration newer than the recorded version, in order, and
+ * returns the ones that ran. Each version is recorded right after it succeeds
+ * so a failure part-way leaves earlier migrations applied.
+ */
+export async function migrate(db: D1Database): Promise<Migration[]> {
+  await ensureMigrationsTable(db);
+  const version = await currentVersion(db);
+  const applied: Migration[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) {
+      continue;
+    }
+
+    await migration.up(db);
+    await db
+      .prepare('INSERT OR IGNORE INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+      .bind(migration.version, migration.name, new Date().toISOString())
+      .run();
+    applied.push(migration);
+  }
+
+  return applied;
+}
+
+export async function migrationStatus(db: D1Database): Promise<MigrationStatus> {
+  await ensureMigrationsTable(db);
+  const { results } = await db
+    .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    .all<{ version: number; name: string; applied_at: string }>();
+
+  const appliedVersions = new Set(results.map((row) => row.version));
+  const latest = MIGRATIONS[MIGRATIONS.length - 1];
+
+  return {
+    currentVersion: results.length > 0 ? results[results.length - 1].version : 0,
+    latestVersion: latest ? latest.version : 0,
+    applied: results.map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at })),
+    pending: MIGRATIONS.filter((migration) => !appliedVersions.has(migration.version)).map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+    })),
+  };
+}
@@ -0,0 +1,21 @@
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: D1Database): Promise<void>;
+}
+
+export async function ensureColumn(
+  db: D1Database,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const existing = await db
+    .prepare(`SELECT name FROM pragma_table_info('${table}') WHERE name = ?`)
+    .bind(column)
+    .first<{ name: string }>();
+
+  if (!existing) {
+    await db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+  }
+}
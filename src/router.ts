@@ -0,0 +1,84 @@
+/**
+ * Path matching for the worker's route table. Patterns are made of literal
+ * segments and `:name` params, e.g. `/api/admin/broadcasts/:id/recipients`;
+ * a param matches exactly one non-empty segment.
+ */
+export interface RouteDefinition {
+  path: string;
+  methods: readonly string[];
+}
+
+export type RouteParams = Record<string, string>;
+
+export type RouteResolution<R extends RouteDefinition> =
+  | { status: 'matched'; route: R; params: RouteParams }
+  | { status: 'method-not-allowed'; allowed: string[] }
+  | { status: 'not-found' };
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const expected = splitPath(pattern);
+  const actual = splitPath(pathname);
+  if (expected.length !== actual.length) {
+    return null;
+  }
+
+  const params: RouteParams = {};
+  for (let index = 0; index < expected.length; index += 1) {
+    const segment = expected[index];
+    if (segment.startsWith(':')) {
+      try {
+        params[segment.slice(1)] = decodeURIComponent(actual[index]);
+      } catch {
+        return null;
+      }
+    } else if (segment !== actual[index]) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+/** Every method accepted by some route on this path, in declaration order. */
+export function routeMethods(routes: readonly RouteDefinition[], pathname: string): string[] {
+  const methods: string[] = [];
+
+  for (const route of routes) {
+    if (!matchPath(route.path, pathname)) {
+      continue;
+    }
+
+    for (const method of route.methods) {
+      if (!methods.includes(method)) {
+        methods.push(method);
+      }
+    }
+  }
+
+  return methods;
+}
+
+/**
+ * Finds the first route whose path and method both match. When the path
+ * matches but the method does not, the methods of every route sharing that
+ * path are returned so the caller can build an `Allow` header.
+ */
+export function resolveRoute<R extends RouteDefinition>(
+  routes: readonly R[],
+  method: string,
+  pathname: string
+): RouteResolution<R> {
+  for (const route of routes) {
+    const params = matchPath(route.path, pathname);
+    if (params && route.methods.includes(method)) {
+      return { status: 'matched', route, params };
+    }
+  }
+
+  const allowed = routeMethods(routes, pathname);
+  return allowed.length > 0 ? { status: 'method-not-allowed', allowed } : { status: 'not-found' };
+}
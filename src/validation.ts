@@ -0,0 +1,174 @@
+/**
+ * Declarative checks for JSON request bodies. A schema maps each field to a
+ * rule; validating a payload yields either the normalised values, typed from
+ * the schema, or an error for every field that failed.
+ */
+
+/**
+ * Machine-readable reasons a field failed. Clients branch on these, so
+ * existing codes keep their meaning; messages are for people and may change.
+ */
+export type FieldErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_email'
+  | 'invalid_date'
+  | 'invalid_format'
+  | 'invalid_choice'
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_token'
+  | 'incorrect_password'
+  | 'unchanged';
+
+export interface FieldError {
+  code: FieldErrorCode;
+  message: string;
+}
+
+export type FieldResult<T> = { ok: true; value: T } | ({ ok: false } & FieldError);
+
+export type FieldRule<T> = (value: unknown) => FieldResult<T>;
+
+export type BodySchema = Record<string, FieldRule<unknown>>;
+
+export type SchemaValues<S extends BodySchema> = {
+  [K in keyof S]: S[K] extends FieldRule<infer T> ? T : never;
+};
+
+export type ValidationResult<S extends BodySchema> =
+  | { ok: true; values: SchemaValues<S> }
+  | { ok: false; fields: Record<string, FieldError> };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMAIL_MAX_LENGTH = 254;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/** Expects an already trimmed, lower-cased address. */
+export function isValidEmail(email: string): boolean {
+  return email.length <= EMAIL_MAX_LENGTH && EMAIL_PATTERN.test(email);
+}
+
+export function emailField(): FieldRule<string> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: false, code: 'required', message: 'Email is required.' };
+    }
+
+    const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (!isValidEmail(email)) {
+      return { ok: false, code: 'invalid_email', message: 'Invalid email address.' };
+    }
+
+    return { ok: true, value: email };
+  };
+}
+
+export interface StringFieldOptions {
+  label: string;
+  min?: number;
+  max?: number;
+  /** Surrounding whitespace is stripped unless this is false (passwords). */
+  trim?: boolean;
+  /** Rejects line breaks, e.g. for values that end up in a mail header. */
+  singleLine?: boolean;
+}
+
+export function stringField({ label, min = 1, max, trim = true, singleLine = false }: StringFieldOptions): FieldRule<string> {
+  return (value) => {
+    if (isBlank(value)) {
+      return { ok: false, code: 'required', message: `${label} is required.` };
+    }
+
+    if (typeof value !== 'string') {
+      return { ok: false, code: 'invalid_type', message: `${label} must be text.` };
+    }
+
+    const text = trim ? value.trim() : value;
+    if (!text) {
+      return { ok: false, code: 'required', message: `${label} is required.` };
+    }
+
+    if (text.length < min) {
+      return { ok: false, code: 'too_short', message: `${label} must be at least ${min} characters long.` };
+    }
+
+    if (max !== undefined && text.length > max) {
+      return { ok: false, code: 'too_long', message: `${label} must be at most ${max} characters long.` };
+    }
+
+    if (singleLine && /[\r\n]/.test(text)) {
+      return { ok: false, code: 'invalid_format', message: `${label} must fit on one line.` };
+    }
+
+    return { ok: true, value: text };
+  };
+}
+
+export function enumField<T extends string>(label: string, values: readonly T[]): FieldRule<T> {
+  return (value) =>
+    typeof value === 'string' && (values as readonly string[]).includes(value)
+      ? { ok: true, value: value as T }
+      : { ok: false, code: 'invalid_choice', message: `${label} must be ${values.join(' or ')}.` };
+}
+
+/** Accepts an ISO 8601 date or timestamp string. */
+export function dateField(label: string): FieldRule<Date> {
+  return (value) => {
+    const time = typeof value === 'string' ? Date.parse(value) : Number.NaN;
+    return Number.isNaN(time)
+      ? { ok: false, code: 'invalid_date', message: `${label} must be an ISO 8601 date.` }
+      : { ok: true, value: new Date(time) };
+  };
+}
+
+export function listField<T>(label: string, item: FieldRule<T>): FieldRule<T[]> {
+  return (value) => {
+    if (!Array.isArray(value)) {
+      return { ok: false, code: 'invalid_type', message: `${label} must be a non-empty list.` };
+    }
+
+    if (value.length === 0) {
+      return { ok: false, code: 'required', message: `${label} must be a non-empty list.` };
+    }
+
+    const items: T[] = [];
+    for (const entry of value) {
+      const result = item(entry);
+      if (!result.ok) {
+        return result;
+      }
+      items.push(result.value);
+    }
+
+    return { ok: true, value: items };
+  };
+}
+
+/** Missing, null and empty values pass as undefined; anything else must satisfy the rule. */
+export function optional<T>(rule: FieldRule<T>): FieldRule<T | undefined> {
+  return (value) => (isBlank(value) ? { ok: true, value: undefined } : rule(value));
+}
+
+export function validateBody<S extends BodySchema>(schema: S, payload: Record<string, unknown>): ValidationResult<S> {
+  const values: Record<string, unknown> = {};
+  const fields: Record<string, FieldError> = {};
+
+  for (const [name, rule] of Object.entries(schema)) {
+    const result = rule(payload[name]);
+    if (result.ok) {
+      values[name] = result.value;
+    } else {
+      fields[name] = { code: result.code, message: result.message };
+    }
+  }
+
+  if (Object.keys(fields).length > 0) {
+    return { ok: false, fields };
+  }
+
+  return { ok: true, values: values as SchemaValues<S> };
+}
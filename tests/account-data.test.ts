@@ -0,0 +1,311 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe('member data export and deletion', () => {
+  let app: TestWorker;
+  let memberCookie: string;
+  let adminCookie: string;
+
+  function call(method: string, path: string, cookie: string, body?: unknown): Promise<Response> {
+    return app.fetch(path, {
+      method,
+      headers: { 'content-type': 'application/json', cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function signIn(email: string): Promise<string> {
+    await call('POST', '/api/login/link', '', { email });
+    const token = emailedToken();
+    return sessionCookie(await app.fetch('/login/link', { method: 'POST', body: new URLSearchParams({ token }) }));
+  }
+
+  function addMember(email: string): void {
+    const now = new Date().toISOString();
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', email, now);
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, 'Solar Fan', 'Loves panels', 'pbkdf2-sha256$secret', ?, ?)",
+      email,
+      now,
+      now
+    );
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SITE_BASE_URL: 'https://solarroots.example.com',
+    });
+
+    const login = await call('POST', '/api/admin/login', '', { email: 'admin@example.com', password: 'secret' });
+    adminCookie = sessionCookie(login);
+
+    addMember('member@example.com');
+    addMember('neighbor@example.com');
+    memberCookie = await signIn('member@example.com');
+    memoryOutbox.length = 0;
+  });
+
+  it('exports what we hold about the member without secrets', async () => {
+    const response = await call('GET', '/api/account/export', memberCookie);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-disposition')).toContain('attachment');
+    const { data } = await response.json();
+    expect(data).toMatchObject({
+      email: 'member@example.com',
+      subscription: { createdAt: expect.any(String) },
+      consent: { confirmed: true, unsubscribedAt: null },
+      consentEvents: [],
+      profile: { name: 'Solar Fan', bio: 'Loves panels' },
+      emails: [{ subject: 'Your Solar Roots sign-in link', status: 'sent' }],
+      loginAttempts: [{ outcome: 'success' }],
+      deletion: null,
+    });
+    expect(JSON.stringify(data)).not.toContain('pbkdf2');
+    expect(JSON.stringify(data)).not.toContain('neighbor@example.com');
+  });
+
+  it('leaves out email bodies so unsent links cannot leak through an export', async () => {
+    app.env.MAIL_TRANSPORT = 'carrier-pigeon';
+    await call('POST', '/api/login/link', '', { email: 'member@example.com' });
+    const pending = app.db.row<{ status: string; text_body: string }>(
+      "SELECT status, text_body FROM email_outbox WHERE subject = 'Your Solar Roots sign-in link' ORDER BY created_at DESC"
+    );
+    expect(pending?.status).toBe('pending');
+    const token = new URL(pending?.text_body.match(/https:\/\/\S+/)?.[0] ?? '').searchParams.get('token') ?? '';
+    expect(token).toHaveLength(64);
+
+    for (const response of [
+      await call('GET', '/api/account/export', memberCookie),
+      await call('POST', '/api/admin/members/export', adminCookie, { email: 'member@example.com' }),
+    ]) {
+      expect(response.status).toBe(200);
+      const { data } = await response.json();
+      expect(data.emails).toContainEqual({
+        subject: 'Your Solar Roots sign-in link',
+        status: 'pending',
+        createdAt: expect.any(String),
+        sentAt: null,
+      });
+      expect(JSON.stringify(data)).not.toContain(token);
+    }
+  });
+
+  it('requires a member session', async () => {
+    expect((await call('GET', '/api/account/export', '')).status).toBe(401);
+    expect((await call('POST', '/api/account/deletion', '', {})).status).toBe(401);
+  });
+
+  it('checks the current password before scheduling a deletion', async () => {
+    const response = await call('POST', '/api/account/deletion', memberCookie, { currentPassword: 'wrong' });
+
+    expect(response.status).toBe(400);
+    expect(app.db.rows('SELECT id FROM account_deletions')).toHaveLength(0);
+  });
+
+  it('schedules a deletion with a grace period and emails the member', async () => {
+    app.db.exec("UPDATE profiles SET password_hash = NULL WHERE email = 'member@example.com'");
+
+    const response = await call('POST', '/api/account/deletion', memberCookie, {});
+    expect(response.status).toBe(202);
+    const { deleteAfter } = await response.json();
+    const days = (Date.parse(deleteAfter) - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBe(14);
+
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0]).toMatchObject({ to: 'member@example.com', subject: 'Your Solar Roots account will be deleted' });
+    expect(memoryOutbox[0].text).toContain('https://solarroots.example.com/login.html');
+
+    const again = await call('POST', '/api/account/deletion', memberCookie, {});
+    expect(again.status).toBe(200);
+    expect((await again.json()).deleteAfter).toBe(deleteAfter);
+    expect(memoryOutbox).toHaveLength(1);
+
+    const exported = await (await call('GET', '/api/account/export', memberCookie)).json();
+    expect(exported.data.deletion).toEqual({ requestedAt: expect.any(String), deleteAfter });
+
+    const me = await (await call('GET', '/api/me', memberCookie)).json();
+    expect(me.deletion).toEqual({ requestedAt: expect.any(String), deleteAfter });
+  });
+
+  it('lets the member cancel during the grace period', async () => {
+    app.db.exec("UPDATE profiles SET password_hash = NULL WHERE email = 'member@example.com'");
+    await call('POST', '/api/account/deletion', memberCookie, {});
+
+    expect((await call('DELETE', '/api/account/deletion', memberCookie)).status).toBe(200);
+    expect((await call('DELETE', '/api/account/deletion', memberCookie)).status).toBe(404);
+
+    app.db.exec('UPDATE account_deletions SET delete_after = ?', new Date(Date.now() - 1000).toISOString());
+    await app.scheduled();
+    expect(app.db.rows("SELECT email FROM profiles WHERE email = 'member@example.com'")).toHaveLength(1);
+  });
+
+  it('erases the account once the grace period is over and keeps only a hash', async () => {
+    app.db.exec("UPDATE profiles SET password_hash = NULL WHERE email = 'member@example.com'");
+    await call('POST', '/api/account/deletion', memberCookie, {});
+
+    await app.scheduled();
+    expect(app.db.rows("SELECT email FROM profiles WHERE email = 'member@example.com'")).toHaveLength(1);
+
+    app.db.exec(
+      "INSERT INTO consent_events (email, event, source, wording_version, created_at) VALUES ('member@example.com', 'subscribe', '/', '2026-10', ?)",
+      new Date().toISOString()
+    );
+    app.db.exec('UPDATE account_deletions SET delete_after = ?', new Date(Date.now() - 1000).toISOString());
+    await app.scheduled();
+
+    for (const table of ['subscriptions', 'profiles', 'sessions', 'email_tokens', 'login_attempts', 'consent_events']) {
+      expect(app.db.rows(`SELECT * FROM ${table} WHERE email = 'member@example.com'`)).toHaveLength(0);
+    }
+    expect(app.db.rows("SELECT * FROM email_outbox WHERE recipient = 'member@example.com'")).toHaveLength(0);
+    expect(app.db.rows('SELECT email FROM profiles')).toEqual([{ email: 'neighbor@example.com' }]);
+
+    const record = app.db.row<{ email: string | null; email_hash: string; completed_at: string | null }>(
+      'SELECT email, email_hash, completed_at FROM account_deletions'
+    );
+    expect(record?.email).toBeNull();
+    expect(record?.email_hash).toHaveLength(64);
+    expect(record?.completed_at).not.toBeNull();
+
+    expect((await call('GET', '/api/account/export', memberCookie)).status).toBe(401);
+  });
+
+  it('drops the address from earlier cancelled requests when the account is erased', async () => {
+    const scheduled = await call('POST', '/api/admin/members/deletion', adminCookie, { email: 'member@example.com' });
+    expect(scheduled.status).toBe(202);
+    await call('POST', '/api/admin/members/deletion/cancel', adminCookie, { email: 'member@example.com' });
+    await call('POST', '/api/admin/members/deletion', adminCookie, { email: 'member@example.com' });
+    expect(app.db.rows('SELECT id FROM account_deletions')).toHaveLength(2);
+
+    app.db.exec('UPDATE account_deletions SET delete_after = ?', new Date(Date.now() - 1000).toISOString());
+    await app.scheduled();
+
+    expect(app.db.rows('SELECT email, completed_at IS NOT NULL AS completed FROM account_deletions ORDER BY id')).toEqual([
+      { email: null, completed: 0 },
+      { email: null, completed: 1 },
+    ]);
+  });
+
+  it('also erases history kept under addresses the account was moved from', async () => {
+    const then = '2024-01-01T00:00:00.000Z';
+    app.db.exec(
+      "INSERT INTO email_changes (old_email, new_email, requested_at, completed_at) VALUES ('first@example.com', 'former@example.com', ?, ?)",
+      then,
+      then
+    );
+    app.db.exec(
+      "INSERT INTO email_changes (old_email, new_email, requested_at, completed_at) VALUES ('former@example.com', 'member@example.com', ?, ?)",
+      then,
+      then
+    );
+    for (const address of ['first@example.com', 'former@example.com']) {
+      app.db.exec(
+        "INSERT INTO login_attempts (email, role, outcome, created_at) VALUES (?, 'member', 'success', ?)",
+        address,
+        then
+      );
+      app.db.exec(
+        "INSERT INTO email_outbox (id, recipient, subject, text_body, html_body, headers, status, next_attempt_at, created_at, updated_at) VALUES (?, ?, 'Old mail', 'text', 'html', '{}', 'dead', ?, ?, ?)",
+        `old-${address}`,
+        address,
+        then,
+        then,
+        then
+      );
+      app.db.exec(
+        "INSERT INTO consent_events (email, event, source, wording_version, created_at) VALUES (?, 'subscribe', '/', '2026-10', ?)",
+        address,
+        then
+      );
+    }
+
+    app.db.exec("UPDATE profiles SET password_hash = NULL WHERE email = 'member@example.com'");
+    await call('POST', '/api/account/deletion', memberCookie, {});
+    app.db.exec('UPDATE account_deletions SET delete_after = ?', new Date(Date.now() - 1000).toISOString());
+    await app.scheduled();
+
+    for (const address of ['first@example.com', 'former@example.com', 'member@example.com']) {
+      expect(app.db.rows('SELECT id FROM login_attempts WHERE email = ?', address)).toHaveLength(0);
+      expect(app.db.rows('SELECT id FROM email_outbox WHERE recipient = ?', address)).toHaveLength(0);
+      expect(app.db.rows('SELECT id FROM consent_events WHERE email = ?', address)).toHaveLength(0);
+    }
+    expect(app.db.rows('SELECT id FROM email_changes')).toHaveLength(0);
+  });
+
+  it('leaves history alone that a new owner of an earlier address built up after the move', async () => {
+    const before = '2024-01-01T00:00:00.000Z';
+    const moved = '2024-02-01T00:00:00.000Z';
+    const after = '2024-03-01T00:00:00.000Z';
+    app.db.exec(
+      "INSERT INTO email_changes (old_email, new_email, requested_at, completed_at) VALUES ('former@example.com', 'member@example.com', ?, ?)",
+      moved,
+      moved
+    );
+    for (const [event, at] of [
+      ['subscribe', before],
+      ['resubscribe', after],
+    ]) {
+      app.db.exec(
+        "INSERT INTO consent_events (email, event, source, wording_version, created_at) VALUES ('former@example.com', ?, '/', '2026-10', ?)",
+        event,
+        at
+      );
+    }
+    app.db.exec(
+      "INSERT INTO login_attempts (email, role, outcome, created_at) VALUES ('former@example.com', 'member', 'success', ?)",
+      after
+    );
+
+    const exported = await (await call('GET', '/api/account/export', memberCookie)).json();
+    expect(exported.data.consentEvents.map((event: { event: string }) => event.event)).toEqual(['subscribe']);
+
+    app.db.exec("UPDATE profiles SET password_hash = NULL WHERE email = 'member@example.com'");
+    await call('POST', '/api/account/deletion', memberCookie, {});
+    app.db.exec('UPDATE account_deletions SET delete_after = ?', new Date(Date.now() - 1000).toISOString());
+    await app.scheduled();
+
+    expect(app.db.rows("SELECT event FROM consent_events WHERE email = 'former@example.com'")).toEqual([
+      { event: 'resubscribe' },
+    ]);
+    expect(app.db.rows("SELECT id FROM login_attempts WHERE email = 'former@example.com'")).toHaveLength(1);
+  });
+
+  it('lets an admin export and schedule deletion for requests that arrive by mail', async () => {
+    expect((await call('POST', '/api/admin/members/export', '', { email: 'member@example.com' })).status).toBe(401);
+    expect((await call('POST', '/api/admin/members/export', adminCookie, { email: 'nobody@example.com' })).status).toBe(
+      404
+    );
+
+    const exported = await call('POST', '/api/admin/members/export', adminCookie, { email: 'member@example.com' });
+    expect(exported.status).toBe(200);
+    expect((await exported.json()).data.profile.name).toBe('Solar Fan');
+
+    const scheduled = await call('POST', '/api/admin/members/deletion', adminCookie, { email: 'Member@Example.com' });
+    expect(scheduled.status).toBe(202);
+    expect(app.db.row('SELECT email, requested_by FROM account_deletions')).toEqual({
+      email: 'member@example.com',
+      requested_by: 'admin@example.com',
+    });
+    expect(memoryOutbox.map((message) => message.to)).toEqual(['member@example.com']);
+
+    const cancelled = await call('POST', '/api/admin/members/deletion/cancel', adminCookie, { email: 'member@example.com' });
+    expect(cancelled.status).toBe(200);
+    expect(app.db.row('SELECT cancelled_at IS NOT NULL AS cancelled FROM account_deletions')).toEqual({ cancelled: 1 });
+  });
+
+  it('asks subscribers without a profile to reply if they change their mind', async () => {
+    app.db.exec(
+      "INSERT INTO subscriptions (email, created_at, confirmed) VALUES ('reader@example.com', ?, 1)",
+      new Date().toISOString()
+    );
+
+    const scheduled = await call('POST', '/api/admin/members/deletion', adminCookie, { email: 'reader@example.com' });
+    expect(scheduled.status).toBe(202);
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0].text).toContain('Reply to this email');
+    expect(memoryOutbox[0].text).not.toContain('login.html');
+  });
+});
@@ -0,0 +1,128 @@
+import worker, { type Env } from '../src/index';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+const ctx: ExecutionContext = {
+  waitUntil() {
+    // no-op for tests
+  },
+};
+
+async function adminCookie(env: Env): Promise<string> {
+  const response = await worker.fetch(
+    new Request('https://example.com/api/admin/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+    }),
+    env,
+    ctx
+  );
+
+  return (response.headers.get('set-cookie') ?? '').split(';')[0];
+}
+
+describe('admin export', () => {
+  let db: SqliteD1Database;
+  let env: Env;
+  let cookie: string;
+
+  function exportRows(query = ''): Promise<Response> {
+    return worker.fetch(new Request(`https://example.com/api/admin/export${query}`, { headers: { cookie } }), env, ctx);
+  }
+
+  beforeEach(async () => {
+    db = new SqliteD1Database();
+    env = {
+      DB: db,
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+    } as unknown as Env;
+    cookie = await adminCookie(env);
+
+    db.exec(
+      'INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token) VALUES (?, ?, 1, NULL), (?, ?, 0, ?)',
+      'ada@example.com',
+      '2024-05-01T10:00:00.000Z',
+      'grace@example.com',
+      '2024-05-02T10:00:00.000Z',
+      'secret-token'
+    );
+    db.exec(
+      'INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      'ada@example.com',
+      'Ada "Countess" Lovelace',
+      'Engines, poetry\nand =SUM(A1)',
+      'super-secret-hash',
+      '2024-05-04T00:00:00.000Z',
+      '2024-05-04T00:00:00.000Z'
+    );
+  });
+
+  it('requires an admin session', async () => {
+    const response = await worker.fetch(new Request('https://example.com/api/admin/export'), env, ctx);
+    expect(response.status).toBe(401);
+  });
+
+  it('streams escaped CSV without secrets', async () => {
+    const response = await exportRows('?order=asc');
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('content-disposition')).toMatch(/^attachment; filename="subscriptions-.*\.csv"$/);
+    expect(text).not.toContain('super-secret-hash');
+    expect(text).not.toContain('secret-token');
+
+    const lines = text.split('\r\n');
+    expect(lines[0]).toBe('email,confirmed,created_at,updated_at,name,bio,profile_created_at,profile_updated_at');
+    expect(lines[1]).toBe(
+      'ada@example.com,true,2024-05-01T10:00:00.000Z,,"Ada ""Countess"" Lovelace","Engines, poetry\nand =SUM(A1)",' +
+        '2024-05-04T00:00:00.000Z,2024-05-04T00:00:00.000Z'
+    );
+    expect(lines[2]).toBe('grace@example.com,false,2024-05-02T10:00:00.000Z,,,,,');
+  });
+
+  it('guards against spreadsheet formulas', async () => {
+    db.exec("UPDATE profiles SET name = '=HYPERLINK(\"http://evil\")'");
+    const text = await (await exportRows('?columns=name&status=confirmed')).text();
+
+    expect(text).toBe('name\r\n"\'=HYPERLINK(""http://evil"")"\r\n');
+  });
+
+  it('exports selected columns as NDJSON with filters', async () => {
+    const response = await exportRows('?format=ndjson&columns=email,confirmed,name&status=confirmed');
+    const text = await response.text();
+
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(text.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+      { email: 'ada@example.com', confirmed: true, name: 'Ada "Countess" Lovelace' },
+    ]);
+  });
+
+  it('refuses secret or unknown columns', async () => {
+    for (const column of ['password_hash', 'confirmation_token', 'email) FROM profiles --']) {
+      const response = await exportRows(`?columns=${encodeURIComponent(column)}`);
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.success).toBe(false);
+      expect(body.allowedColumns).not.toContain('password_hash');
+    }
+  });
+
+  it('streams every row across batches', async () => {
+    for (let index = 0; index < 1200; index += 1) {
+      db.exec(
+        'INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)',
+        `bulk${index}@example.com`,
+        '2024-06-01T00:00:00.000Z'
+      );
+    }
+
+    const text = await (await exportRows('?format=ndjson&columns=email')).text();
+    const emails = new Set(text.trim().split('\n').map((line) => JSON.parse(line).email));
+    expect(emails.size).toBe(1202);
+  });
+});
@@ -0,0 +1,128 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, sessionCookie, type TestWorker } from './support/worker';
+
+describe('admin import', () => {
+  let app: TestWorker;
+  let cookie: string;
+
+  function importCsv(csv: string, query = ''): Promise<Response> {
+    return app.fetch(`/api/admin/import${query}`, {
+      method: 'POST',
+      headers: { cookie, 'content-type': 'text/csv' },
+      body: csv,
+    });
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ ADMIN_EMAIL: 'admin@example.com', ADMIN_PASSWORD: 'secret' });
+    cookie = sessionCookie(await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' }));
+
+    app.db.exec(
+      "INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token) VALUES ('pending@example.com', '2024-01-01T00:00:00.000Z', 0, 'old'), ('done@example.com', '2024-01-01T00:00:00.000Z', 1, NULL)"
+    );
+  });
+
+  const csv = [
+    'name,email,created_at',
+    'Ada," Ada@Example.com ",2024-03-01',
+    'Bad,not-an-email,',
+    'Again,ada@example.com,',
+    'Pending,pending@example.com,',
+    'Done,DONE@example.com,',
+    'Late,late@example.com,someday',
+  ].join('\r\n');
+
+  it('reports every row on a dry run without writing', async () => {
+    const response = await importCsv(csv, '?dryRun=true');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.dryRun).toBe(true);
+    expect(body.rows).toEqual([
+      { row: 2, email: 'ada@example.com', status: 'created' },
+      { row: 3, email: 'not-an-email', status: 'invalid', reason: 'Invalid email address.' },
+      { row: 4, email: 'ada@example.com', status: 'duplicate', reason: 'Email appears earlier in this file.' },
+      { row: 5, email: 'pending@example.com', status: 'skipped', reason: 'Already subscribed.' },
+      { row: 6, email: 'done@example.com', status: 'skipped', reason: 'Already confirmed.' },
+      { row: 7, email: 'late@example.com', status: 'invalid', reason: 'Invalid created_at date.' },
+    ]);
+    expect(body.summary).toEqual({ created: 1, merged: 0, skipped: 2, duplicate: 1, invalid: 2, failed: 0 });
+    expect(app.db.rows('SELECT email FROM subscriptions')).toHaveLength(2);
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('imports pre-confirmed rows and merges existing pending ones', async () => {
+    const response = await importCsv(csv, '?mode=confirmed&existing=merge');
+    const body = await response.json();
+
+    expect(body.summary).toEqual({ created: 1, merged: 1, skipped: 1, duplicate: 1, invalid: 2, failed: 0 });
+    expect(app.db.row('SELECT confirmed, created_at, confirmation_token FROM subscriptions WHERE email = ?', 'ada@example.com')).toEqual({
+      confirmed: 1,
+      created_at: '2024-03-01T00:00:00.000Z',
+      confirmation_token: null,
+    });
+    expect(app.db.row('SELECT confirmed FROM subscriptions WHERE email = ?', 'pending@example.com')).toEqual({ confirmed: 1 });
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('queues confirmation emails for pending imports', async () => {
+    const response = await importCsv('email\nnew@example.com\npending@example.com\n', '?existing=merge');
+    const body = await response.json();
+
+    expect(body.summary).toEqual({ created: 1, merged: 1, skipped: 0, duplicate: 0, invalid: 0, failed: 0 });
+    expect(memoryOutbox).toHaveLength(0);
+    expect(app.db.rows("SELECT recipient FROM email_outbox WHERE status = 'pending' ORDER BY recipient")).toEqual([
+      { recipient: 'new@example.com' },
+      { recipient: 'pending@example.com' },
+    ]);
+
+    await app.scheduled();
+    expect(memoryOutbox.map((message) => message.to).sort()).toEqual(['new@example.com', 'pending@example.com']);
+
+    const pending = app.db.row<{ confirmation_token: string }>(
+      'SELECT confirmation_token FROM subscriptions WHERE email = ?',
+      'pending@example.com'
+    );
+    expect(pending?.confirmation_token).not.toBe('old');
+  });
+
+  it('reports the rows it did not write when a batch fails', async () => {
+    const emails = Array.from({ length: 150 }, (_, index) => `member${index + 1}@example.com`);
+    app.db.exec(
+      "CREATE TRIGGER fail_import BEFORE INSERT ON subscriptions WHEN NEW.email = 'member120@example.com' BEGIN SELECT RAISE(ABORT, 'boom'); END"
+    );
+
+    const response = await importCsv(`email\n${emails.join('\n')}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(body.success).toBe(false);
+    expect(body.summary).toEqual({ created: 100, merged: 0, skipped: 0, duplicate: 0, invalid: 0, failed: 50 });
+    expect(body.rows[100]).toEqual({
+      row: 102,
+      email: 'member101@example.com',
+      status: 'failed',
+      reason: 'Not imported; the import stopped before this row.',
+    });
+    expect(app.db.row("SELECT COUNT(*) AS count FROM subscriptions WHERE email LIKE 'member%'")).toEqual({ count: 100 });
+    expect(app.db.row('SELECT COUNT(*) AS count FROM email_outbox')).toEqual({ count: 100 });
+  });
+
+  it('refuses files over the row limit', async () => {
+    const emails = Array.from({ length: 1001 }, (_, index) => `member${index}@example.com`);
+    const response = await importCsv(emails.join('\n'));
+    expect(response.status).toBe(413);
+  });
+
+  it('accepts a headerless single-column file', async () => {
+    const body = await (await importCsv('first@example.com\nsecond@example.com', '?mode=confirmed')).json();
+    expect(body.summary.created).toBe(2);
+  });
+
+  it('requires an admin session', async () => {
+    cookie = '';
+    const response = await importCsv(csv);
+    expect(response.status).toBe(401);
+  });
+});
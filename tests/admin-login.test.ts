@@ -1,5 +1,6 @@
 import worker, { type Env } from '../src/index';
 import { describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
 
 class NoopStatement {
   bind(): NoopStatement {
@@ -10,8 +11,12 @@ class NoopStatement {
     return Promise.resolve(null);
   }
 
-  run(): Promise<null> {
-    return Promise.resolve(null);
+  run<T = unknown>(): Promise<T> {
+    return Promise.resolve({} as T);
+  }
+
+  all<T = unknown>(): Promise<{ results: T[] }> {
+    return Promise.resolve({ results: [] });
   }
 }
 
@@ -19,6 +24,10 @@ class NoopDatabase {
   prepare(): NoopStatement {
     return new NoopStatement();
   }
+
+  batch<T = unknown>(): Promise<T[]> {
+    return Promise.resolve([]);
+  }
 }
 
 async function sha256Hex(value: string): Promise<string> {
@@ -81,7 +90,7 @@ describe('admin login handler', () => {
       body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
     });
 
-    const env: Env = { DB: db, ADMIN_EMAIL: 'admin@example.com', ADMIN_PASSWORD: 'secret' };
+    const env: Env = { DB: db, ADMIN_EMAIL: 'admin@example.com', ADMIN_PASSWORD: 'secret', SESSION_SECRET: 'test-secret' };
     const response = await worker.fetch(request, env, ctx);
     const body = await response.json();
 
@@ -102,6 +111,7 @@ describe('admin login handler', () => {
       DB: db,
       ADMIN_EMAIL: 'admin@example.com',
       ADMIN_PASSWORD_HASH: passwordHash,
+      SESSION_SECRET: 'test-secret',
     };
 
     const response = await worker.fetch(request, env, ctx);
@@ -110,5 +120,162 @@ describe('admin login handler', () => {
     expect(response.status).toBe(200);
     expect(body.success).toBe(true);
     expect(body.message).toBe('Admin login successful.');
+    expect(response.headers.get('set-cookie')).toContain('sr_admin=');
+  });
+});
+
+describe('admin PBKDF2 hashes', () => {
+  const ctx: ExecutionContext = {
+    waitUntil() {
+      // no-op for tests
+    },
+  };
+
+  async function pbkdf2Hash(value: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(value), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: 100000 }, key, 256);
+    const hex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `pbkdf2-sha256$100000$${hex(salt)}$${hex(new Uint8Array(bits))}`;
+  }
+
+  it('accepts the right password and rejects the wrong one', async () => {
+    const env: Env = {
+      DB: new NoopDatabase(),
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD_HASH: await pbkdf2Hash('pbkdf2-secret'),
+      SESSION_SECRET: 'test-secret',
+    };
+
+    const login = (password: string) =>
+      worker.fetch(
+        new Request('https://example.com/api/admin/login', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ email: 'admin@example.com', password }),
+        }),
+        env,
+        ctx
+      );
+
+    expect((await login('pbkdf2-secret')).status).toBe(200);
+    expect((await login('sha256-guess')).status).toBe(401);
+  });
+});
+
+describe('admin session gate', () => {
+  const ctx: ExecutionContext = {
+    waitUntil() {
+      // no-op for tests
+    },
+  };
+
+  function adminEnv(db: SqliteD1Database): Env {
+    return {
+      DB: db,
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+      ASSETS: {
+        fetch: async (request: Request) => new Response(`asset:${new URL(request.url).pathname}`),
+      },
+    } as unknown as Env;
+  }
+
+  async function adminCookie(env: Env): Promise<string> {
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+      }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(200);
+    return (response.headers.get('set-cookie') ?? '').split(';')[0];
+  }
+
+  it('redirects anonymous visitors away from the dashboard', async () => {
+    const env = adminEnv(new SqliteD1Database());
+    const response = await worker.fetch(new Request('https://example.com/dashboard.html'), env, ctx);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('https://example.com/admin.html');
+  });
+
+  it('gates every spelling of the dashboard path', async () => {
+    const env = adminEnv(new SqliteD1Database());
+    const variants = [
+      '/dashboard',
+      '/dashboard/',
+      '/dashboard.html/',
+      '//dashboard.html',
+      '/Dashboard.HTML',
+      '/%64ashboard.html',
+      '/dashboard%2Ehtml',
+      '/./dashboard.html',
+      '/public/../dashboard.html',
+    ];
+
+    for (const path of variants) {
+      const response = await worker.fetch(new Request(`https://example.com${path}`), env, ctx);
+      expect({ path, status: response.status }).toEqual({ path, status: 302 });
+    }
+
+    const other = await worker.fetch(new Request('https://example.com/dashboard.js'), env, ctx);
+    expect(other.status).toBe(200);
+  });
+
+  it('rejects anonymous calls to admin APIs', async () => {
+    const env = adminEnv(new SqliteD1Database());
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/logout', { method: 'POST' }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ success: false, error: 'Admin authentication required.' });
+  });
+
+  it('does not accept a member session as an admin session', async () => {
+    const db = new SqliteD1Database();
+    const env = adminEnv(db);
+    const cookie = await adminCookie(env);
+    db.exec("UPDATE sessions SET role = 'member'");
+
+    const response = await worker.fetch(
+      new Request('https://example.com/dashboard.html', { headers: { cookie } }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(302);
+  });
+
+  it('serves the dashboard to a logged-in admin until they log out', async () => {
+    const db = new SqliteD1Database();
+    const env = adminEnv(db);
+    const cookie = await adminCookie(env);
+
+    const session = db.row<{ role: string; expires_at: string }>('SELECT role, expires_at FROM sessions');
+    expect(session?.role).toBe('admin');
+    expect(Date.parse(session?.expires_at ?? '') - Date.now()).toBeLessThanOrEqual(2 * 60 * 60 * 1000);
+
+    const page = await worker.fetch(new Request('https://example.com/dashboard.html', { headers: { cookie } }), env, ctx);
+    expect(page.status).toBe(200);
+    expect(await page.text()).toBe('asset:/dashboard.html');
+
+    const logout = await worker.fetch(
+      new Request('https://example.com/api/admin/logout', { method: 'POST', headers: { cookie } }),
+      env,
+      ctx
+    );
+    expect(logout.status).toBe(200);
+
+    const after = await worker.fetch(new Request('https://example.com/dashboard.html', { headers: { cookie } }), env, ctx);
+    expect(after.status).toBe(302);
   });
 });
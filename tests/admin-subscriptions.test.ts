@@ -0,0 +1,148 @@
+import worker, { type Env } from '../src/index';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+const ctx: ExecutionContext = {
+  waitUntil() {
+    // no-op for tests
+  },
+};
+
+async function adminCookie(env: Env): Promise<string> {
+  const response = await worker.fetch(
+    new Request('https://example.com/api/admin/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+    }),
+    env,
+    ctx
+  );
+
+  return (response.headers.get('set-cookie') ?? '').split(';')[0];
+}
+
+describe('admin subscription listing', () => {
+  let db: SqliteD1Database;
+  let env: Env;
+  let cookie: string;
+
+  function list(query = ''): Promise<Response> {
+    return worker.fetch(
+      new Request(`https://example.com/api/admin/subscriptions${query}`, { headers: { cookie } }),
+      env,
+      ctx
+    );
+  }
+
+  beforeEach(async () => {
+    db = new SqliteD1Database();
+    env = {
+      DB: db,
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+    } as unknown as Env;
+    cookie = await adminCookie(env);
+
+    const rows: Array<[string, string, number]> = [
+      ['ada@example.com', '2024-05-01T10:00:00.000Z', 1],
+      ['grace@example.com', '2024-05-02T10:00:00.000Z', 0],
+      ['linus@sample.org', '2024-05-03T10:00:00.000Z', 1],
+      ['margaret@example.com', '2024-05-03T10:00:00.000Z', 0],
+      ['katherine@sample.org', '2024-05-31T23:30:00.000Z', 1],
+    ];
+    for (const [email, createdAt, confirmed] of rows) {
+      db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, ?)', email, createdAt, confirmed);
+    }
+    db.exec(
+      'INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      'ada@example.com',
+      'Ada',
+      'Analytical engines.',
+      'hash',
+      '2024-05-04T00:00:00.000Z',
+      '2024-05-04T00:00:00.000Z'
+    );
+  });
+
+  it('requires an admin session', async () => {
+    const response = await worker.fetch(new Request('https://example.com/api/admin/subscriptions'), env, ctx);
+    expect(response.status).toBe(401);
+  });
+
+  it('lists subscriptions newest first with their profiles', async () => {
+    const response = await list();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.subscriptions.map((row: { email: string }) => row.email)).toEqual([
+      'katherine@sample.org',
+      'margaret@example.com',
+      'linus@sample.org',
+      'grace@example.com',
+      'ada@example.com',
+    ]);
+    expect(body.subscriptions[4]).toEqual({
+      email: 'ada@example.com',
+      confirmed: true,
+      createdAt: '2024-05-01T10:00:00.000Z',
+      updatedAt: null,
+      profile: { name: 'Ada', bio: 'Analytical engines.', createdAt: '2024-05-04T00:00:00.000Z' },
+    });
+    expect(body.subscriptions[0].profile).toBeNull();
+    expect(body.pageInfo).toEqual({ limit: 50, order: 'desc', nextCursor: null });
+  });
+
+  it('filters by status, email substring and date range', async () => {
+    const confirmed = await (await list('?status=unconfirmed')).json();
+    expect(confirmed.subscriptions.map((row: { email: string }) => row.email)).toEqual([
+      'margaret@example.com',
+      'grace@example.com',
+    ]);
+
+    const search = await (await list('?q=SAMPLE.org&order=asc')).json();
+    expect(search.subscriptions.map((row: { email: string }) => row.email)).toEqual([
+      'linus@sample.org',
+      'katherine@sample.org',
+    ]);
+
+    const range = await (await list('?from=2024-05-02&to=2024-05-31&status=confirmed')).json();
+    expect(range.subscriptions.map((row: { email: string }) => row.email)).toEqual([
+      'katherine@sample.org',
+      'linus@sample.org',
+    ]);
+  });
+
+  it('treats LIKE wildcards in the search as literal characters', async () => {
+    const body = await (await list('?q=%25')).json();
+    expect(body.subscriptions).toHaveLength(0);
+  });
+
+  it('pages through results with cursors, including rows that share a timestamp', async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const query: string = cursor ? `?limit=2&cursor=${cursor}` : '?limit=2';
+      const body = await (await list(query)).json();
+      seen.push(...body.subscriptions.map((row: { email: string }) => row.email));
+      cursor = body.pageInfo.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual([
+      'katherine@sample.org',
+      'margaret@example.com',
+      'linus@sample.org',
+      'grace@example.com',
+      'ada@example.com',
+    ]);
+  });
+
+  it('rejects invalid filters', async () => {
+    expect((await list('?status=maybe')).status).toBe(400);
+    expect((await list('?from=yesterday')).status).toBe(400);
+    expect((await list('?limit=0')).status).toBe(400);
+    expect((await list('?cursor=not-a-cursor')).status).toBe(400);
+  });
+});
@@ -0,0 +1,184 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, sessionCookie, type TestWorker } from './support/worker';
+
+describe('admin broadcasts', () => {
+  let app: TestWorker;
+  let cookie: string;
+
+  function request(method: string, path: string, body?: unknown): Promise<Response> {
+    return app.fetch(`/api/admin/broadcasts${path}`, {
+      method,
+      headers: { 'content-type': 'application/json', cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function createDraft(): Promise<string> {
+    const response = await request('POST', '', {
+      subject: 'Spring update',
+      html: '<h1>Spring update</h1><p>Panels are going up on the community garden.</p>',
+    });
+    expect(response.status).toBe(201);
+    return (await response.json()).broadcast.id;
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SITE_BASE_URL: 'https://solarroots.example.com',
+    });
+    cookie = sessionCookie(await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' }));
+
+    const now = new Date().toISOString();
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', 'ada@example.com', now);
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', 'grace@example.com', now);
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 0)', 'pending@example.com', now);
+    app.db.exec(
+      'INSERT INTO subscriptions (email, created_at, confirmed, unsubscribed_at) VALUES (?, ?, 1, ?)',
+      'gone@example.com',
+      now,
+      now
+    );
+  });
+
+  it('creates, edits and lists drafts', async () => {
+    const id = await createDraft();
+
+    const edit = await request('POST', `/${id}`, { subject: 'Spring update, revised' });
+    expect(edit.status).toBe(200);
+    expect((await edit.json()).broadcast).toMatchObject({ subject: 'Spring update, revised', status: 'draft' });
+
+    const list = await request('GET', '');
+    const body = await list.json();
+    expect(body.broadcasts).toHaveLength(1);
+    expect(body.broadcasts[0]).toMatchObject({ id, createdBy: 'admin@example.com' });
+  });
+
+  it('validates draft content', async () => {
+    const response = await request('POST', '', { subject: 'Line one\nLine two', html: '<p>Hi</p>' });
+    expect(response.status).toBe(400);
+    expect((await response.json()).fields).toEqual({
+      subject: { code: 'invalid_format', message: 'Subject must fit on one line.' },
+    });
+
+    const id = await createDraft();
+    const schedule = await request('POST', `/${id}/schedule`, { sendAt: 'next tuesday' });
+    expect(schedule.status).toBe(400);
+    expect((await schedule.json()).fields.sendAt.code).toBe('invalid_date');
+  });
+
+  it('test-sends to the admin address only', async () => {
+    const id = await createDraft();
+
+    const response = await request('POST', `/${id}/test`);
+
+    expect(response.status).toBe(202);
+    expect(memoryOutbox.map((message) => [message.to, message.subject])).toEqual([
+      ['admin@example.com', '[Test] Spring update'],
+    ]);
+    expect(app.db.rows('SELECT email FROM broadcast_recipients')).toHaveLength(0);
+  });
+
+  it('sends to confirmed, non-suppressed subscribers and records delivery status', async () => {
+    const id = await createDraft();
+
+    const schedule = await request('POST', `/${id}/schedule`);
+    expect(schedule.status).toBe(200);
+
+    expect(memoryOutbox.map((message) => message.to).sort()).toEqual(['ada@example.com', 'grace@example.com']);
+    expect(memoryOutbox[0].text).toContain('Panels are going up on the community garden.');
+    expect(memoryOutbox[0].html).toContain('<h1>Spring update</h1>');
+
+    const detail = await request('GET', `/${id}`);
+    expect((await detail.json()).broadcast).toMatchObject({ status: 'sent', recipients: { sent: 2 } });
+
+    const recipients = await request('GET', `/${id}/recipients`);
+    expect((await recipients.json()).recipients).toEqual([
+      expect.objectContaining({ email: 'ada@example.com', status: 'sent', attempts: 1 }),
+      expect.objectContaining({ email: 'grace@example.com', status: 'sent', attempts: 1 }),
+    ]);
+  });
+
+  it('waits for the scheduled time and skips addresses that unsubscribe meanwhile', async () => {
+    const id = await createDraft();
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    await request('POST', `/${id}/schedule`, { sendAt });
+    await app.scheduled();
+    expect(memoryOutbox).toHaveLength(0);
+
+    app.db.exec('UPDATE broadcasts SET scheduled_at = ?', new Date(Date.now() - 1000).toISOString());
+    app.db.exec(
+      "INSERT INTO broadcast_recipients (broadcast_id, email, status, updated_at) VALUES (?, 'grace@example.com', 'pending', ?)",
+      id,
+      new Date().toISOString()
+    );
+    app.db.exec("UPDATE subscriptions SET unsubscribed_at = ? WHERE email = 'grace@example.com'", new Date().toISOString());
+
+    await app.scheduled();
+
+    expect(memoryOutbox.map((message) => message.to)).toEqual(['ada@example.com']);
+    const detail = await request('GET', `/${id}`);
+    expect((await detail.json()).broadcast.recipients).toEqual({ sent: 1, skipped: 1 });
+  });
+
+  it('reports failed deliveries per recipient', async () => {
+    app.env.MAIL_TRANSPORT = 'carrier-pigeon';
+    const id = await createDraft();
+
+    await request('POST', `/${id}/schedule`);
+
+    const recipients = await request('GET', `/${id}/recipients?status=queued`);
+    const body = await recipients.json();
+    expect(body.recipients).toHaveLength(2);
+    expect(body.recipients[0].lastError).toContain('Unknown MAIL_TRANSPORT');
+
+    app.db.exec("UPDATE email_outbox SET status = 'dead'");
+    const detail = await request('GET', `/${id}`);
+    expect((await detail.json()).broadcast.recipients).toEqual({ failed: 2 });
+  });
+
+  it('refuses to edit or reschedule a broadcast once it has gone out', async () => {
+    const id = await createDraft();
+    await request('POST', `/${id}/schedule`);
+
+    expect((await request('POST', `/${id}`, { subject: 'Too late' })).status).toBe(409);
+    expect((await request('POST', `/${id}/schedule`)).status).toBe(409);
+  });
+
+  it('cancels a scheduled broadcast back to a draft', async () => {
+    const id = await createDraft();
+    await request('POST', `/${id}/schedule`, { sendAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+
+    const response = await request('POST', `/${id}/cancel`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).broadcast).toMatchObject({ status: 'draft', scheduledAt: null });
+  });
+
+  it('returns 404 for unknown broadcasts', async () => {
+    expect((await request('GET', '/missing')).status).toBe(404);
+  });
+
+  it('keeps the rest of the cron running when a broadcast cannot advance', async () => {
+    const id = await createDraft();
+    await request('POST', `/${id}/schedule`, { sendAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    app.db.exec('UPDATE broadcasts SET scheduled_at = ?', new Date(Date.now() - 1000).toISOString());
+    app.db.exec('DROP TABLE broadcast_recipients');
+
+    const past = new Date(Date.now() - 1000).toISOString();
+    app.db.exec(
+      "INSERT INTO email_outbox (id, recipient, subject, text_body, html_body, headers, status, next_attempt_at, created_at, updated_at) VALUES ('retry-me', 'ada@example.com', 'Hello', 'Hi', '<p>Hi</p>', '{}', 'pending', ?, ?, ?)",
+      past,
+      past,
+      past
+    );
+
+    await app.scheduled();
+
+    expect(memoryOutbox.map((message) => message.subject)).toEqual(['Hello']);
+    expect(app.db.row("SELECT status FROM email_outbox WHERE id = 'retry-me'")).toEqual({ status: 'sent' });
+  });
+});
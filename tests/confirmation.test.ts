@@ -0,0 +1,94 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedLink, type TestWorker } from './support/worker';
+
+describe('confirmation expiry and resend', () => {
+  let app: TestWorker;
+
+  function hoursAgo(hours: number): string {
+    return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  }
+
+  function token(): string | null {
+    return app.db.row<{ confirmation_token: string | null }>(
+      'SELECT confirmation_token FROM subscriptions WHERE email = ?',
+      'user@example.com'
+    )?.confirmation_token ?? null;
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker();
+    app.db.exec(
+      "INSERT INTO subscriptions (email, created_at, confirmed, confirmation_token, token_created_at) VALUES ('user@example.com', ?, 0, 'valid-token', ?)",
+      hoursAgo(72),
+      hoursAgo(72)
+    );
+  });
+
+  it('refuses expired links and offers a resend form', async () => {
+    const response = await app.fetch('/confirm?email=user@example.com&token=valid-token');
+    const body = await response.text();
+
+    expect(response.status).toBe(400);
+    expect(body).toContain('This link has expired');
+    expect(body).toContain('action="/api/confirm/resend"');
+    expect(body).toContain('value="user@example.com"');
+    expect(app.db.row('SELECT confirmed FROM subscriptions')).toEqual({ confirmed: 0 });
+  });
+
+  it('honours a configured TTL', async () => {
+    app.env.CONFIRMATION_TOKEN_TTL_HOURS = '96';
+    const response = await app.fetch('/confirm?email=user@example.com&token=valid-token');
+
+    expect(response.status).toBe(200);
+    expect(app.db.row('SELECT confirmed FROM subscriptions')).toEqual({ confirmed: 1 });
+  });
+
+  it('rotates the token when someone subscribes again', async () => {
+    const response = await app.post('/api/subscribe', { email: 'user@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(token()).not.toBe('valid-token');
+  });
+
+  it('resends with a fresh token and then enforces a cooldown', async () => {
+    const first = await app.post('/api/confirm/resend', { email: 'USER@example.com' });
+    expect(first.status).toBe(202);
+
+    const rotated = token();
+    expect(rotated).not.toBe('valid-token');
+    expect(memoryOutbox).toHaveLength(1);
+    expect(emailedLink()).toBe(`https://example.com/confirm?token=${rotated}&email=user%40example.com`);
+
+    const second = await app.post('/api/confirm/resend', { email: 'user@example.com' });
+    expect(second.status).toBe(429);
+    expect(Number(second.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await second.json()).success).toBe(false);
+    expect(token()).toBe(rotated);
+  });
+
+  it('answers the expired-page form with an HTML page', async () => {
+    const response = await app.fetch('/api/confirm/resend', {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'email=user%40example.com',
+    });
+
+    expect(response.headers.get('content-type')).toBe('text/html; charset=utf-8');
+    expect(await response.text()).toContain('Check your inbox');
+  });
+
+  it('rejects an invalid address with a field error', async () => {
+    const response = await app.post('/api/confirm/resend', { email: 'not-an-email' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fields).toEqual({ email: { code: 'invalid_email', message: 'Invalid email address.' } });
+  });
+
+  it('does not reveal whether an unknown address is subscribed', async () => {
+    const response = await app.post('/api/confirm/resend', { email: 'stranger@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(memoryOutbox).toHaveLength(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedLink, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe('consent audit trail', () => {
+  let app: TestWorker;
+
+  const visitor = { 'CF-Connecting-IP': '203.0.113.7', 'user-agent': 'TestBrowser/1.0' };
+
+  function subscribe(body: Record<string, unknown>, headers: Record<string, string> = {}): Promise<Response> {
+    return app.post('/api/subscribe', body, { ...visitor, ...headers });
+  }
+
+  /** Subscribes and confirms `email`, returning the unsubscribe link from the welcome email. */
+  async function confirmedSubscriber(email: string): Promise<string> {
+    await subscribe({ email, source: '/', consentVersion: '2026-10' });
+    await app.fetch(emailedLink(), { headers: visitor });
+    return (memoryOutbox.at(-1)?.headers['List-Unsubscribe'] ?? '').slice(1, -1);
+  }
+
+  function postUnsubscribe(link: string, fields: Record<string, string>): Promise<Response> {
+    return app.fetch(link, { method: 'POST', headers: visitor, body: new URLSearchParams(fields) });
+  }
+
+  function events(email: string) {
+    return app.db.rows<Record<string, string | null>>(
+      'SELECT event, ip_hash, user_agent, source, wording_version FROM consent_events WHERE email = ? ORDER BY id',
+      email
+    );
+  }
+
+  async function adminCookie(): Promise<string> {
+    return sessionCookie(await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' }));
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SITE_BASE_URL: 'https://solarroots.example.com',
+    });
+  });
+
+  it('records the signup with a hashed IP, the page and the wording version', async () => {
+    const response = await subscribe({ email: 'sunny@example.com', source: '/', consentVersion: '2026-10' });
+    expect(response.status).toBe(202);
+
+    const [event] = events('sunny@example.com');
+    expect(event).toMatchObject({
+      event: 'subscribe',
+      user_agent: 'TestBrowser/1.0',
+      source: '/',
+      wording_version: '2026-10',
+    });
+    expect(event.ip_hash).toHaveLength(64);
+    expect(event.ip_hash).not.toContain('203.0.113.7');
+  });
+
+  it('falls back to the Referer and the current wording when the form sends neither', async () => {
+    await subscribe({ email: 'sunny@example.com' }, { referer: 'https://solarroots.example.com/learn-more.html' });
+
+    expect(events('sunny@example.com')).toEqual([
+      expect.objectContaining({ event: 'subscribe', source: '/learn-more.html', wording_version: '2026-10' }),
+    ]);
+  });
+
+  it('rejects a consent version this deployment does not serve', async () => {
+    const response = await subscribe({ email: 'sunny@example.com', source: '/', consentVersion: '1999-01' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fields.consentVersion.code).toBe('invalid_choice');
+    expect(events('sunny@example.com')).toEqual([]);
+  });
+
+  it('records confirmation, unsubscribe and resubscribe in order', async () => {
+    const unsubscribeLink = await confirmedSubscriber('sunny@example.com');
+
+    expect((await postUnsubscribe(unsubscribeLink, { reason: 'too_many' })).status).toBe(200);
+    expect((await postUnsubscribe(unsubscribeLink, { action: 'resubscribe' })).status).toBe(200);
+    expect((await postUnsubscribe(unsubscribeLink, { 'List-Unsubscribe': 'One-Click' })).status).toBe(200);
+
+    expect(events('sunny@example.com').map(({ event, source }) => [event, source])).toEqual([
+      ['subscribe', '/'],
+      ['confirm', '/confirm'],
+      ['unsubscribe', '/unsubscribe'],
+      ['resubscribe', '/unsubscribe'],
+      ['unsubscribe', 'list-unsubscribe'],
+    ]);
+  });
+
+  it('records imported addresses without the admin’s IP or browser', async () => {
+    const cookie = await adminCookie();
+    app.db.exec(
+      "INSERT INTO subscriptions (email, created_at, confirmed) VALUES ('waiting@example.com', '2024-01-01T00:00:00.000Z', 0)"
+    );
+
+    const response = await app.fetch('/api/admin/import?mode=confirmed&existing=merge', {
+      method: 'POST',
+      headers: { ...visitor, cookie, 'content-type': 'text/csv' },
+      body: 'email\nfresh@example.com\nwaiting@example.com\n',
+    });
+    expect(response.status).toBe(200);
+
+    const imported = { ip_hash: null, user_agent: null, source: 'admin-import', wording_version: 'imported' };
+    expect(events('fresh@example.com')).toEqual([
+      { event: 'subscribe', ...imported },
+      { event: 'confirm', ...imported },
+    ]);
+    expect(events('waiting@example.com')).toEqual([{ event: 'confirm', ...imported }]);
+  });
+
+  it('records the new address confirming an email change', async () => {
+    await confirmedSubscriber('old@example.com');
+    const now = new Date().toISOString();
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES ('old@example.com', 'Solar Fan', 'Bio', NULL, ?, ?)",
+      now,
+      now
+    );
+    await app.post('/api/login/link', { email: 'old@example.com' });
+    const signIn = await app.fetch('/login/link', { method: 'POST', body: new URLSearchParams({ token: emailedToken() }) });
+
+    await app.post('/api/profile/email', { email: 'new@example.com' }, { cookie: sessionCookie(signIn) });
+    const verify = await app.fetch('/profile/email/verify', {
+      method: 'POST',
+      headers: visitor,
+      body: new URLSearchParams({ token: emailedToken('new@example.com') }),
+    });
+    expect(verify.status).toBe(200);
+
+    const [event] = events('new@example.com');
+    expect(event).toMatchObject({ event: 'confirm', user_agent: 'TestBrowser/1.0', source: '/profile/email/verify' });
+    expect(event.ip_hash).toHaveLength(64);
+  });
+
+  it('does not allow recorded events to be edited', async () => {
+    await subscribe({ email: 'sunny@example.com' });
+
+    expect(() => app.db.exec("UPDATE consent_events SET source = 'forged'")).toThrow('append-only');
+  });
+
+  it('shows admins the history, including addresses the member used before', async () => {
+    await confirmedSubscriber('old@example.com');
+    app.db.exec(
+      "INSERT INTO email_changes (old_email, new_email, requested_at, completed_at) VALUES ('old@example.com', 'new@example.com', ?, ?)",
+      new Date().toISOString(),
+      new Date().toISOString()
+    );
+    const cookie = await adminCookie();
+
+    const unauthenticated = await app.fetch('/api/admin/consent?email=new@example.com');
+    expect(unauthenticated.status).toBe(401);
+
+    const missing = await app.fetch('/api/admin/consent', { headers: { cookie } });
+    expect(missing.status).toBe(400);
+
+    const response = await app.fetch('/api/admin/consent?email=New@Example.com', { headers: { cookie } });
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.addresses).toEqual(['new@example.com', 'old@example.com']);
+    expect(body.events).toEqual([
+      expect.objectContaining({ email: 'old@example.com', event: 'subscribe', wordingVersion: '2026-10' }),
+      expect.objectContaining({ email: 'old@example.com', event: 'confirm', userAgent: 'TestBrowser/1.0' }),
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import worker, { type Env } from '../src/index';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+describe('CORS', () => {
+  const ctx: ExecutionContext = {
+    waitUntil() {
+      // no-op for tests
+    },
+  };
+  let env: Env;
+
+  function adminLogin(origin: string): Promise<Response> {
+    return worker.fetch(
+      new Request('https://api.example.com/api/admin/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', origin },
+        body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+      }),
+      env,
+      ctx
+    );
+  }
+
+  function preflight(path: string, origin: string): Promise<Response> {
+    return worker.fetch(
+      new Request(`https://api.example.com${path}`, {
+        method: 'OPTIONS',
+        headers: { origin, 'access-control-request-method': 'POST' },
+      }),
+      env,
+      ctx
+    );
+  }
+
+  beforeEach(() => {
+    env = {
+      DB: new SqliteD1Database(),
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+      ALLOWED_ORIGINS: 'https://solarroots.example.com, https://staging.solarroots.example.com/',
+    } as unknown as Env;
+  });
+
+  it('echoes an allowed origin with credentials on API responses', async () => {
+    const response = await adminLogin('https://staging.solarroots.example.com');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://staging.solarroots.example.com');
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('vary')).toBe('Origin');
+    expect(response.headers.get('set-cookie')).toContain('sr_admin=');
+  });
+
+  it('accepts the session cookie on credentialed calls from an allowed same-site origin', async () => {
+    const login = await adminLogin('https://staging.solarroots.example.com');
+    const setCookie = login.headers.get('set-cookie') ?? '';
+    expect(setCookie).toContain('SameSite=Strict');
+
+    const response = await worker.fetch(
+      new Request('https://api.example.com/api/admin/migrations', {
+        headers: { origin: 'https://staging.solarroots.example.com', cookie: setCookie.split(';')[0] },
+      }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://staging.solarroots.example.com');
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+  });
+
+  it('sends no CORS headers to other origins or when no allowlist is set', async () => {
+    const stranger = await adminLogin('https://evil.example.com');
+    env = { ...env, ALLOWED_ORIGINS: undefined };
+    const unconfigured = await adminLogin('https://solarroots.example.com');
+
+    expect(stranger.headers.get('access-control-allow-origin')).toBeNull();
+    expect(unconfigured.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('answers preflights with the methods the route accepts', async () => {
+    const migrations = await preflight('/api/admin/migrations', 'https://solarroots.example.com');
+    const login = await preflight('/api/login', 'https://solarroots.example.com');
+
+    expect(migrations.status).toBe(204);
+    expect(migrations.headers.get('access-control-allow-methods')).toBe('GET,POST,OPTIONS');
+    expect(migrations.headers.get('access-control-allow-headers')).toBe('content-type');
+    expect(migrations.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(login.headers.get('access-control-allow-methods')).toBe('POST,OPTIONS');
+  });
+
+  it('does not approve preflights from other origins', async () => {
+    const response = await preflight('/api/login', 'https://evil.example.com');
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toBeNull();
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('does not answer preflights for unknown paths', async () => {
+    const response = await preflight('/api/nope', 'https://solarroots.example.com');
+
+    expect(response.status).toBe(404);
+  });
+});
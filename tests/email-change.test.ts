@@ -0,0 +1,154 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe('email address change', () => {
+  let app: TestWorker;
+  let cookie: string;
+
+  function verify(token: string): Promise<Response> {
+    return app.fetch('/profile/email/verify', { method: 'POST', body: new URLSearchParams({ token }) });
+  }
+
+  async function requestChange(email: string, currentPassword = 'old-password'): Promise<string> {
+    const response = await app.post('/api/profile/email', { email, currentPassword }, { cookie });
+    expect(response.status).toBe(202);
+    return emailedToken(email);
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ SITE_BASE_URL: 'https://solarroots.example.com' });
+    const now = new Date().toISOString();
+    app.db.exec("INSERT INTO subscriptions (email, created_at, confirmed) VALUES ('old@example.com', '2024-01-01T00:00:00.000Z', 1)");
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES ('old@example.com', 'Solar Fan', 'Bio', NULL, ?, ?)",
+      now,
+      now
+    );
+
+    // Sign in with an emailed link, then set a password so the current
+    // password check has something to verify.
+    await app.post('/api/login/link', { email: 'old@example.com' });
+    const signIn = await app.fetch('/login/link', { method: 'POST', body: new URLSearchParams({ token: emailedToken() }) });
+    cookie = sessionCookie(signIn);
+    const update = await app.post('/api/profile', { name: 'Solar Fan', bio: 'Bio', password: 'old-password' }, { cookie });
+    expect(update.status).toBe(200);
+
+    memoryOutbox.length = 0;
+  });
+
+  it('sends a verification link to the new address and a notice to the old one', async () => {
+    const token = await requestChange('new@example.com');
+
+    expect(token).toHaveLength(64);
+    expect(memoryOutbox.map((message) => [message.to, message.subject])).toEqual([
+      ['new@example.com', 'Confirm your new Solar Roots email address'],
+      ['old@example.com', 'Your Solar Roots email address is changing'],
+    ]);
+    expect(memoryOutbox[1].text).toContain('new@example.com');
+    expect(app.db.row('SELECT email FROM profiles')).toEqual({ email: 'old@example.com' });
+  });
+
+  it('requires a session and the current password', async () => {
+    expect((await app.post('/api/profile/email', { email: 'new@example.com', currentPassword: 'old-password' })).status).toBe(401);
+
+    const wrong = await app.post('/api/profile/email', { email: 'new@example.com', currentPassword: 'nope' }, { cookie });
+    expect(wrong.status).toBe(400);
+    expect((await wrong.json()).fields).toEqual({
+      currentPassword: { code: 'incorrect_password', message: 'Your current password is incorrect.' },
+    });
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('refuses addresses that already belong to another profile', async () => {
+    const now = new Date().toISOString();
+    app.db.exec("INSERT INTO subscriptions (email, created_at, confirmed) VALUES ('taken@example.com', ?, 1)", now);
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, created_at, updated_at) VALUES ('taken@example.com', 'Other', 'Bio', ?, ?)",
+      now,
+      now
+    );
+
+    const response = await app.post('/api/profile/email', { email: 'taken@example.com', currentPassword: 'old-password' }, { cookie });
+    expect(response.status).toBe(409);
+  });
+
+  it('moves the subscription, profile and session together and records the change', async () => {
+    const token = await requestChange('new@example.com');
+
+    const page = await app.fetch(`/profile/email/verify?token=${token}`);
+    expect(page.status).toBe(200);
+    expect(app.db.row('SELECT email FROM profiles')).toEqual({ email: 'old@example.com' });
+
+    const response = await verify(token);
+    expect(response.status).toBe(200);
+
+    expect(app.db.rows('SELECT email, created_at, confirmed FROM subscriptions')).toEqual([
+      { email: 'new@example.com', created_at: '2024-01-01T00:00:00.000Z', confirmed: 1 },
+    ]);
+    expect(app.db.rows('SELECT email, name FROM profiles')).toEqual([{ email: 'new@example.com', name: 'Solar Fan' }]);
+    expect(app.db.row('SELECT old_email, new_email, completed_at IS NOT NULL AS completed FROM email_changes')).toEqual({
+      old_email: 'old@example.com',
+      new_email: 'new@example.com',
+      completed: 1,
+    });
+
+    const me = await app.fetch('/api/me', { headers: { cookie } });
+    expect((await me.json()).profile.email).toBe('new@example.com');
+
+    expect((await app.post('/api/login', { email: 'new@example.com', password: 'old-password' })).status).toBe(200);
+    expect((await verify(token)).status).toBe(400);
+  });
+
+  it('keeps the earlier sign-up date when the new address is already on the list', async () => {
+    app.db.exec(
+      "INSERT INTO subscriptions (email, created_at, confirmed) VALUES ('new@example.com', '2024-06-01T00:00:00.000Z', 0)"
+    );
+    const token = await requestChange('new@example.com');
+
+    expect((await verify(token)).status).toBe(200);
+    expect(app.db.rows('SELECT email, created_at, confirmed FROM subscriptions')).toEqual([
+      { email: 'new@example.com', created_at: '2024-01-01T00:00:00.000Z', confirmed: 1 },
+    ]);
+  });
+
+  it('rolls everything back when one step of the move fails', async () => {
+    const token = await requestChange('new@example.com');
+    app.db.exec(
+      "CREATE TRIGGER fail_session_move BEFORE UPDATE ON sessions BEGIN SELECT RAISE(ABORT, 'boom'); END"
+    );
+
+    const response = await verify(token);
+    expect(response.status).toBe(400);
+
+    expect(app.db.rows('SELECT email FROM subscriptions')).toEqual([{ email: 'old@example.com' }]);
+    expect(app.db.rows('SELECT email FROM profiles')).toEqual([{ email: 'old@example.com' }]);
+    expect(app.db.row('SELECT completed_at FROM email_changes')).toEqual({ completed_at: null });
+  });
+
+  it('keeps superseded requests as cancelled history', async () => {
+    const first = await requestChange('first@example.com');
+    const second = await requestChange('second@example.com');
+
+    expect((await verify(first)).status).toBe(400);
+    expect((await verify(second)).status).toBe(200);
+
+    expect(
+      app.db.rows('SELECT new_email, completed_at IS NOT NULL AS completed, cancelled_at IS NOT NULL AS cancelled FROM email_changes ORDER BY id')
+    ).toEqual([
+      { new_email: 'first@example.com', completed: 0, cancelled: 1 },
+      { new_email: 'second@example.com', completed: 1, cancelled: 0 },
+    ]);
+  });
+
+  it('cancels a pending change when the password is reset', async () => {
+    const token = await requestChange('new@example.com');
+
+    await app.post('/api/password/forgot', { email: 'old@example.com' });
+    const resetToken = emailedToken();
+    expect((await app.post('/api/password/reset', { token: resetToken, password: 'brand-new-pass' })).status).toBe(200);
+
+    expect((await verify(token)).status).toBe(400);
+    expect(app.db.row('SELECT email FROM profiles')).toEqual({ email: 'old@example.com' });
+  });
+});
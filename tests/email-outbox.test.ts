@@ -0,0 +1,122 @@
+import { memoryOutbox, OUTBOX_MAX_ATTEMPTS } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, sessionCookie, type TestWorker } from './support/worker';
+
+describe('email outbox', () => {
+  let app: TestWorker;
+
+  function makeDue(): void {
+    app.db.exec('UPDATE email_outbox SET next_attempt_at = ?', new Date(Date.now() - 1000).toISOString());
+  }
+
+  // An unknown transport fails every delivery, the way an upstream outage would.
+  function breakMail(): void {
+    app.env.MAIL_TRANSPORT = 'carrier-pigeon';
+  }
+
+  function fixMail(): void {
+    app.env.MAIL_TRANSPORT = 'memory';
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ ADMIN_EMAIL: 'admin@example.com', ADMIN_PASSWORD: 'secret' });
+  });
+
+  it('records delivered messages and drops their bodies', async () => {
+    const response = await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(memoryOutbox.map((message) => message.to)).toEqual(['sunny@example.com']);
+    expect(app.db.row('SELECT status, attempts, text_body, sent_at IS NOT NULL AS sent FROM email_outbox')).toEqual({
+      status: 'sent',
+      attempts: 1,
+      text_body: '',
+      sent: 1,
+    });
+  });
+
+  it('keeps failed messages queued with a backoff', async () => {
+    breakMail();
+    const response = await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    expect(response.status).toBe(202);
+    const row = app.db.row<{ status: string; attempts: number; last_error: string; next_attempt_at: string }>(
+      'SELECT status, attempts, last_error, next_attempt_at FROM email_outbox'
+    );
+    expect(row?.status).toBe('pending');
+    expect(row?.attempts).toBe(1);
+    expect(row?.last_error).toContain('Unknown MAIL_TRANSPORT');
+    expect(Date.parse(row?.next_attempt_at ?? '') - Date.now()).toBeGreaterThan(50 * 1000);
+  });
+
+  it('drains due messages from the scheduled handler', async () => {
+    breakMail();
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    fixMail();
+    await app.scheduled();
+    expect(memoryOutbox).toHaveLength(0);
+
+    makeDue();
+    await app.scheduled();
+    expect(memoryOutbox).toHaveLength(1);
+    expect(app.db.row('SELECT status, attempts FROM email_outbox')).toEqual({ status: 'sent', attempts: 2 });
+  });
+
+  it('dead-letters messages after the final attempt', async () => {
+    breakMail();
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    for (let attempt = 1; attempt < OUTBOX_MAX_ATTEMPTS; attempt += 1) {
+      makeDue();
+      await app.scheduled();
+    }
+
+    expect(app.db.row('SELECT status, attempts FROM email_outbox')).toEqual({
+      status: 'dead',
+      attempts: OUTBOX_MAX_ATTEMPTS,
+    });
+
+    fixMail();
+    makeDue();
+    await app.scheduled();
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('lets admins inspect and requeue dead messages', async () => {
+    breakMail();
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+    app.db.exec("UPDATE email_outbox SET status = 'dead'");
+
+    const login = await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' });
+    const cookie = sessionCookie(login);
+
+    const listing = await app.fetch('/api/admin/outbox', { headers: { cookie } });
+    expect(listing.status).toBe(200);
+    const body = await listing.json();
+    expect(body.counts).toEqual({ dead: 1 });
+    expect(body.messages).toEqual([
+      expect.objectContaining({
+        recipient: 'sunny@example.com',
+        subject: 'Confirm your Solar Roots subscription',
+        status: 'dead',
+        lastError: expect.stringContaining('Unknown MAIL_TRANSPORT'),
+      }),
+    ]);
+    expect(body.messages[0].text).toBeUndefined();
+
+    fixMail();
+    const requeue = await app.post('/api/admin/outbox/requeue', { ids: [body.messages[0].id] }, { cookie });
+    expect(requeue.status).toBe(200);
+    expect(await requeue.json()).toEqual({ success: true, requeued: 1 });
+    expect(app.db.row('SELECT status, attempts FROM email_outbox')).toEqual({ status: 'sent', attempts: 1 });
+  });
+
+  it('rejects malformed requeue requests', async () => {
+    const login = await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' });
+    const cookie = sessionCookie(login);
+
+    const response = await app.post('/api/admin/outbox/requeue', { ids: [] }, { cookie });
+    expect(response.status).toBe(400);
+  });
+});
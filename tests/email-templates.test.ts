@@ -0,0 +1,107 @@
+import { memoryOutbox, renderEmail } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedLink, sessionCookie, type TestWorker } from './support/worker';
+
+describe('email templates', () => {
+  it('escapes variables in the HTML part and generates the text part', () => {
+    const rendered = renderEmail('confirmation', { link: 'https://example.com/confirm?token=a&email=b"><script>' });
+
+    expect(rendered.subject).toBe('Confirm your Solar Roots subscription');
+    expect(rendered.html).toContain('href="https://example.com/confirm?token=a&amp;email=b&quot;&gt;&lt;script&gt;"');
+    expect(rendered.html).not.toContain('<script>');
+    expect(rendered.text).toBe(
+      'Thanks for subscribing to Solar Roots!\n\nClick here to confirm your email address: https://example.com/confirm?token=a&email=b"><script>'
+    );
+  });
+
+  it('drops optional sections when their variable is missing', () => {
+    const withLink = renderEmail('accountLocked', { attempts: 5, until: 'soon', resetLink: 'https://example.com/reset' });
+    const withoutLink = renderEmail('accountLocked', { attempts: 5, until: 'soon' });
+
+    expect(withLink.text).toContain('choose a new password: https://example.com/reset');
+    expect(withoutLink.html).not.toContain('new password');
+    expect(withoutLink.text).toBe(
+      'We paused sign-in to your Solar Roots account after 5 failed attempts.\n\nYou can try again after soon.'
+    );
+  });
+
+  it('refuses to render with a missing variable', () => {
+    expect(() => renderEmail('passwordReset', {} as { link: string })).toThrow('Missing email template variable "link"');
+  });
+});
+
+describe('welcome email', () => {
+  it('is queued once a subscription is confirmed', async () => {
+    const app = await createTestWorker({ SITE_BASE_URL: 'https://solarroots.example.com' });
+
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+    const response = await app.fetch(emailedLink());
+
+    expect(response.status).toBe(200);
+    expect(memoryOutbox.map((message) => message.subject)).toEqual([
+      'Confirm your Solar Roots subscription',
+      'Welcome to Solar Roots',
+    ]);
+    expect(memoryOutbox[1].text).toMatch(/https:\/\/solarroots\.example\.com\/signup\.html\?token=[0-9a-f]{64} /);
+  });
+});
+
+describe('admin email preview', () => {
+  let app: TestWorker;
+  let cookie: string;
+
+  function preview(path: string): Promise<Response> {
+    return app.fetch(`/api/admin/email-preview/${path}`, { headers: { cookie } });
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SITE_BASE_URL: 'https://solarroots.example.com',
+    });
+    cookie = sessionCookie(await app.post('/api/admin/login', { email: 'admin@example.com', password: 'secret' }));
+  });
+
+  it('renders a template with sample data', async () => {
+    const response = await preview('passwordReset');
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true, template: 'passwordReset', subject: 'Reset your Solar Roots password' });
+    expect(body.html).toContain('https://solarroots.example.com/reset-password.html?token=sample-token');
+    expect(body.text).toContain('Choose a new password: https://solarroots.example.com/reset-password.html');
+  });
+
+  it('serves the HTML part directly for viewing in a browser', async () => {
+    const response = await preview('welcome?format=html');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(await response.text()).toContain('Welcome to Solar Roots!');
+  });
+
+  it('lists the available templates for an unknown name', async () => {
+    const response = await preview('newsletter');
+
+    expect(response.status).toBe(404);
+    const body = await response.json();
+    expect(body.templates).toEqual([
+      'confirmation',
+      'welcome',
+      'profileSetup',
+      'passwordReset',
+      'loginLink',
+      'emailChangeVerify',
+      'emailChangeNotice',
+      'accountDeletion',
+      'accountLocked',
+      'broadcast',
+    ]);
+  });
+
+  it('requires an admin session', async () => {
+    cookie = '';
+    expect((await preview('welcome')).status).toBe(401);
+  });
+});
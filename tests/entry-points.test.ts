@@ -0,0 +1,76 @@
+import { type Env } from '../src/index';
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { ENTRY_POINTS } from './support/entry-points';
+import { createTestWorker, emailedLink, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe.each(ENTRY_POINTS)('$name entry point', (entry) => {
+  let app: TestWorker;
+
+  function request(path: string, cookie?: string): Promise<Response> {
+    return app.fetch(path, { headers: cookie ? { cookie } : {} });
+  }
+
+  function postJson(path: string, body: unknown, cookie?: string): Promise<Response> {
+    return app.post(path, body, cookie ? { cookie } : {});
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker(
+      {
+        ADMIN_EMAIL: 'admin@example.com',
+        ADMIN_PASSWORD: 'admin-secret',
+        ASSETS: { fetch: async (assetRequest: Request) => new Response(`asset ${new URL(assetRequest.url).pathname}`) },
+      } as Partial<Env>,
+      entry
+    );
+  });
+
+  it('runs the member flow from subscribe through logout', async () => {
+    const subscribed = await postJson('/api/subscribe', { email: 'sunny@example.com' });
+    expect(subscribed.status).toBe(202);
+
+    const confirmed = await app.fetch(emailedLink());
+    expect(confirmed.status).toBe(200);
+    expect(app.db.row('SELECT confirmed FROM subscriptions')).toEqual({ confirmed: 1 });
+
+    expect(memoryOutbox).toHaveLength(2);
+    const profile = await postJson('/api/profile', {
+      token: emailedToken(),
+      name: 'Sunny',
+      bio: 'Growing tomatoes under panels.',
+      password: 'password123',
+    });
+    expect(profile.status).toBe(200);
+
+    const login = await postJson('/api/login', { email: 'sunny@example.com', password: 'password123' });
+    expect(login.status).toBe(200);
+    const cookie = sessionCookie(login);
+
+    const me = await request('/api/me', cookie);
+    expect(me.status).toBe(200);
+    expect((await me.json()).profile.name).toBe('Sunny');
+
+    const logout = await postJson('/api/logout', {}, cookie);
+    expect(logout.status).toBe(200);
+    expect((await request('/api/me', cookie)).status).toBe(401);
+  });
+
+  it('serves the admin API behind an admin session', async () => {
+    expect((await request('/api/admin/subscriptions')).status).toBe(401);
+
+    const login = await postJson('/api/admin/login', { email: 'admin@example.com', password: 'admin-secret' });
+    expect(login.status).toBe(200);
+
+    const subscriptions = await request('/api/admin/subscriptions', sessionCookie(login));
+    expect(subscriptions.status).toBe(200);
+    expect((await subscriptions.json()).success).toBe(true);
+  });
+
+  it('falls through to static assets for unknown paths', async () => {
+    const response = await request('/about.html');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('asset /about.html');
+  });
+});
@@ -0,0 +1,121 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe('magic-link login', () => {
+  let app: TestWorker;
+
+  function useLink(token: string): Promise<Response> {
+    return app.fetch('/login/link', { method: 'POST', body: new URLSearchParams({ token }) });
+  }
+
+  async function requestLink(email: string): Promise<string> {
+    const response = await app.post('/api/login/link', { email });
+    expect(response.status).toBe(202);
+    return emailedToken();
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ SITE_BASE_URL: 'https://solarroots.example.com' });
+    const now = new Date().toISOString();
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, 'Solar Fan', 'Bio', NULL, ?, ?)",
+      'member@example.com',
+      now,
+      now
+    );
+  });
+
+  it('emails a single-use link and stores only a hash of the token', async () => {
+    const token = await requestLink('Member@Example.com');
+
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0].to).toBe('member@example.com');
+    expect(memoryOutbox[0].subject).toBe('Your Solar Roots sign-in link');
+    expect(memoryOutbox[0].text).toContain('https://solarroots.example.com/login/link?token=');
+    expect(token).toHaveLength(64);
+
+    const stored = app.db.rows<{ token_hash: string; purpose: string }>('SELECT token_hash, purpose FROM email_tokens');
+    expect(stored).toEqual([{ token_hash: expect.any(String), purpose: 'login' }]);
+    expect(stored[0].token_hash).not.toBe(token);
+  });
+
+  it('gives the same answer for addresses without a profile and sends nothing', async () => {
+    const response = await app.post('/api/login/link', { email: 'stranger@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      success: true,
+      message: 'If an account exists for that email, a sign-in link is on its way.',
+    });
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('only shows a sign-in button when the link is opened', async () => {
+    const token = await requestLink('member@example.com');
+
+    const page = await app.fetch(`/login/link?token=${token}`);
+    expect(page.status).toBe(200);
+    expect(page.headers.get('set-cookie')).toBeNull();
+    const html = await page.text();
+    expect(html).toContain('member@example.com');
+    expect(html).toContain(`name="token" value="${token}"`);
+    expect(app.db.row('SELECT used_at FROM email_tokens')).toEqual({ used_at: null });
+  });
+
+  it('starts a member session once and rejects the link afterwards', async () => {
+    const token = await requestLink('member@example.com');
+
+    const response = await useLink(token);
+    expect(response.status).toBe(303);
+    expect(response.headers.get('location')).toBe('/login.html');
+    const cookie = sessionCookie(response);
+    expect(cookie).toMatch(/^sr_session=/);
+
+    const me = await app.fetch('/api/me', { headers: { cookie } });
+    expect(me.status).toBe(200);
+    expect((await me.json()).profile.email).toBe('member@example.com');
+
+    const attempts = app.db.rows('SELECT email, role, outcome FROM login_attempts');
+    expect(attempts).toEqual([{ email: 'member@example.com', role: 'member', outcome: 'success' }]);
+
+    const replay = await useLink(token);
+    expect(replay.status).toBe(400);
+    expect(replay.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('rejects expired links and links superseded by a newer request', async () => {
+    const first = await requestLink('member@example.com');
+    const second = await requestLink('member@example.com');
+
+    expect((await useLink(first)).status).toBe(400);
+
+    app.db.exec('UPDATE email_tokens SET expires_at = ?', new Date(Date.now() - 1000).toISOString());
+    expect((await useLink(second)).status).toBe(400);
+  });
+
+  it('refuses the link when the claim does not report a used token', async () => {
+    const token = await requestLink('member@example.com');
+    const prepare = app.db.prepare.bind(app.db);
+    app.db.prepare = (query) => {
+      const statement = prepare(query);
+      if (query.startsWith('UPDATE email_tokens SET used_at')) {
+        statement.run = <T>() => Promise.resolve({ success: true } as T);
+      }
+      return statement;
+    };
+
+    const response = await useLink(token);
+    expect(response.status).toBe(400);
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('leaves password login working for members who have a password', async () => {
+    const cookie = sessionCookie(await useLink(await requestLink('member@example.com')));
+    const update = await app.post('/api/profile', { name: 'Solar Fan', bio: 'Bio', password: 'sunny-days' }, { cookie });
+    expect(update.status).toBe(200);
+
+    const login = await app.post('/api/login', { email: 'member@example.com', password: 'sunny-days' });
+    expect(login.status).toBe(200);
+  });
+});
@@ -0,0 +1,138 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, sessionCookie, type TestWorker } from './support/worker';
+
+async function sha256Hex(value: string): Promise<string> {
+  const data = new TextEncoder().encode(value);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+describe('login lockout', () => {
+  let app: TestWorker;
+
+  function post(path: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return app.post(path, body, { 'user-agent': 'lockout-test', ...headers });
+  }
+
+  function login(password: string): Promise<Response> {
+    return post('/api/login', { email: 'member@example.com', password }, { 'CF-Connecting-IP': '203.0.113.9' });
+  }
+
+  async function adminCookie(): Promise<string> {
+    return sessionCookie(await post('/api/admin/login', { email: 'admin@example.com', password: 'admin-secret' }));
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      SITE_BASE_URL: 'https://solarroots.example.com',
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'admin-secret',
+    });
+    const now = new Date().toISOString();
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', 'member@example.com', now);
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, 'Solar Fan', 'Bio', ?, ?, ?)",
+      'member@example.com',
+      await sha256Hex('correct-horse'),
+      now,
+      now
+    );
+  });
+
+  it('records the outcome, IP and user agent of each attempt', async () => {
+    await login('wrong-password');
+    await login('correct-horse');
+
+    expect(app.db.rows('SELECT outcome, ip, user_agent FROM login_attempts ORDER BY id')).toEqual([
+      { outcome: 'failure', ip: '203.0.113.9', user_agent: 'lockout-test' },
+      { outcome: 'success', ip: '203.0.113.9', user_agent: 'lockout-test' },
+    ]);
+  });
+
+  it('locks the account after repeated failures and emails the member', async () => {
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      expect((await login('wrong-password')).status).toBe(401);
+    }
+
+    const locking = await login('wrong-password');
+    expect(locking.status).toBe(423);
+    expect(Number(locking.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0].to).toBe('member@example.com');
+    expect(memoryOutbox[0].text).toContain('https://solarroots.example.com/reset-password.html');
+
+    const locked = await login('correct-horse');
+    expect(locked.status).toBe(423);
+    expect(locked.headers.get('set-cookie')).toBeNull();
+    expect(app.db.row("SELECT COUNT(*) AS count FROM login_attempts WHERE outcome = 'locked'")).toEqual({ count: 1 });
+  });
+
+  it('starts counting again after a successful login', async () => {
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      await login('wrong-password');
+    }
+    expect((await login('correct-horse')).status).toBe(200);
+
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      expect((await login('wrong-password')).status).toBe(401);
+    }
+  });
+
+  it('ignores failures older than the window', async () => {
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      await login('wrong-password');
+    }
+    app.db.exec('UPDATE login_attempts SET created_at = ?', new Date(Date.now() - 16 * 60 * 1000).toISOString());
+
+    expect((await login('wrong-password')).status).toBe(401);
+  });
+
+  it('lets admins review failures and unlock accounts', async () => {
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      await login('wrong-password');
+    }
+    const cookie = await adminCookie();
+
+    const review = await app.fetch('/api/admin/login-attempts?email=member@example.com', { headers: { cookie } });
+    expect(review.status).toBe(200);
+    const body = await review.json();
+    expect(body.attempts).toHaveLength(5);
+    expect(body.attempts[0]).toMatchObject({ email: 'member@example.com', role: 'member', outcome: 'failure' });
+    expect(body.lockouts).toEqual([
+      expect.objectContaining({ email: 'member@example.com', role: 'member' }),
+    ]);
+
+    const unlock = await post('/api/admin/unlock', { email: 'member@example.com' }, { cookie });
+    expect(unlock.status).toBe(200);
+    expect(await unlock.json()).toMatchObject({ success: true, unlocked: 1 });
+    expect(app.db.row('SELECT unlocked_by FROM account_lockouts')).toEqual({ unlocked_by: 'admin@example.com' });
+
+    expect((await login('correct-horse')).status).toBe(200);
+  });
+
+  it('returns 404 when there is no lockout to clear', async () => {
+    const cookie = await adminCookie();
+    const response = await post('/api/admin/unlock', { email: 'member@example.com' }, { cookie });
+    expect(response.status).toBe(404);
+  });
+
+  it('locks the admin login and notifies the admin address', async () => {
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      const response = await post(
+        '/api/admin/login',
+        { email: 'admin@example.com', password: 'nope' },
+        { 'CF-Connecting-IP': `198.51.100.${attempt}` }
+      );
+      expect(response.status).toBe(401);
+    }
+
+    const locking = await post('/api/admin/login', { email: 'admin@example.com', password: 'nope' });
+    expect(locking.status).toBe(423);
+
+    expect(memoryOutbox.map((email) => email.to)).toEqual(['admin@example.com']);
+  });
+});
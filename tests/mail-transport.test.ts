@@ -0,0 +1,86 @@
+import { memoryOutbox, resolveMailTransport } from '../src/mail';
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+import { createTestWorker } from './support/worker';
+
+describe('mail transports', () => {
+  const originalFetch = globalThis.fetch;
+  let fetchCalls: Array<{ url: string; init?: RequestInit }>;
+
+  beforeEach(() => {
+    fetchCalls = [];
+    globalThis.fetch = (async (input: RequestInfo, init?: RequestInit) => {
+      fetchCalls.push({ url: String(input), init });
+      return new Response('', { status: 202 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('captures messages in memory without touching the network', async () => {
+    const app = await createTestWorker({ SITE_BASE_URL: 'https://solarroots.example.com' });
+
+    const response = await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(fetchCalls).toHaveLength(0);
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0]).toMatchObject({
+      to: 'sunny@example.com',
+      from: { email: 'noreply@example.com', name: 'Solar Roots' },
+      subject: 'Confirm your Solar Roots subscription',
+    });
+    expect(memoryOutbox[0].text).toContain('https://solarroots.example.com/confirm?token=');
+  });
+
+  it('writes messages to D1 with the local transport', async () => {
+    const app = await createTestWorker({ MAIL_TRANSPORT: 'local', MAIL_FROM_EMAIL: 'hello@solarroots.example.com' });
+
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    expect(fetchCalls).toHaveLength(0);
+    expect(app.db.rows('SELECT recipient, from_email, subject FROM captured_emails')).toEqual([
+      {
+        recipient: 'sunny@example.com',
+        from_email: 'hello@solarroots.example.com',
+        subject: 'Confirm your Solar Roots subscription',
+      },
+    ]);
+  });
+
+  it('sends through SendGrid when an API key is configured', async () => {
+    const app = await createTestWorker({
+      MAIL_TRANSPORT: undefined,
+      SENDGRID_API_KEY: 'sg-key',
+      SENDGRID_FROM_EMAIL: 'news@solarroots.example.com',
+      SITE_BASE_URL: 'https://solarroots.example.com',
+      UNSUBSCRIBE_SECRET: 'unsubscribe-secret',
+    });
+
+    await app.post('/api/subscribe', { email: 'sunny@example.com' });
+
+    expect(fetchCalls).toHaveLength(1);
+    expect(fetchCalls[0].url).toBe('https://api.sendgrid.com/v3/mail/send');
+    expect(new Headers(fetchCalls[0].init?.headers).get('authorization')).toBe('Bearer sg-key');
+
+    const payload = JSON.parse(String(fetchCalls[0].init?.body));
+    expect(payload.from).toEqual({ email: 'news@solarroots.example.com', name: 'Solar Roots' });
+    expect(payload.personalizations[0].to).toEqual([{ email: 'sunny@example.com' }]);
+    expect(payload.headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('lets MAIL_TRANSPORT override a configured SendGrid key', () => {
+    const transport = resolveMailTransport({ DB: new SqliteD1Database(), MAIL_TRANSPORT: 'mailchannels', SENDGRID_API_KEY: 'sg-key' });
+    expect(transport.name).toBe('mailchannels');
+  });
+
+  it('rejects unknown or incomplete transport settings', () => {
+    const db = new SqliteD1Database();
+    expect(() => resolveMailTransport({ DB: db, MAIL_TRANSPORT: 'carrier-pigeon' })).toThrow(
+      'Unknown MAIL_TRANSPORT "carrier-pigeon"'
+    );
+    expect(() => resolveMailTransport({ DB: db, MAIL_TRANSPORT: 'sendgrid' })).toThrow('SENDGRID_API_KEY');
+  });
+});
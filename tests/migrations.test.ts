@@ -0,0 +1,215 @@
+import worker, { type Env } from '../src/index';
+import { MIGRATIONS, migrate, migrationStatus, type Migration } from '../src/migrations';
+import { describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+const ctx: ExecutionContext = {
+  waitUntil() {
+    // no-op for tests
+  },
+};
+
+class RecordingD1Database extends SqliteD1Database {
+  queries: string[] = [];
+
+  prepare(query: string) {
+    this.queries.push(query);
+    return super.prepare(query);
+  }
+}
+
+function columns(db: SqliteD1Database, table: string): string[] {
+  return db.rows<{ name: string }>(`SELECT name FROM pragma_table_info('${table}')`).map((row) => row.name);
+}
+
+function check(env: Env, email: string): Promise<Response> {
+  return worker.fetch(
+    new Request('https://example.com/api/check', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email }),
+    }),
+    env,
+    ctx
+  );
+}
+
+describe('schema migrations', () => {
+  it('applies every migration to an empty database once', async () => {
+    const db = new SqliteD1Database();
+
+    const applied = await migrate(db);
+    expect(applied.map((migration) => migration.version)).toEqual(MIGRATIONS.map((migration) => migration.version));
+    expect(columns(db, 'subscriptions')).toContain('unsubscribe_reason');
+    expect(columns(db, 'sessions')).toContain('role');
+
+    expect(await migrate(db)).toEqual([]);
+    expect(db.rows('SELECT version FROM schema_migrations')).toHaveLength(MIGRATIONS.length);
+  });
+
+  it('upgrades a legacy database without losing rows', async () => {
+    const db = new SqliteD1Database();
+    db.exec('CREATE TABLE subscriptions (email TEXT PRIMARY KEY, created_at TEXT NOT NULL)');
+    db.exec(
+      'CREATE TABLE profiles (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE, name TEXT NOT NULL, bio TEXT NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)'
+    );
+    db.exec("INSERT INTO subscriptions (email, created_at) VALUES ('legacy@example.com', '2023-01-01T00:00:00.000Z')");
+
+    await migrate(db);
+
+    expect(columns(db, 'subscriptions')).toEqual(
+      expect.arrayContaining(['updated_at', 'confirmed', 'confirmation_token', 'token_created_at', 'unsubscribed_at'])
+    );
+    expect(columns(db, 'profiles')).toContain('password_hash');
+    expect(db.row('SELECT email, confirmed FROM subscriptions')).toEqual({ email: 'legacy@example.com', confirmed: 0 });
+
+    const status = await migrationStatus(db);
+    expect(status.pending).toEqual([]);
+    expect(status.currentVersion).toBe(status.latestVersion);
+  });
+
+  it('checks the schema once per database instead of on every request', async () => {
+    const db = new RecordingD1Database();
+    const env = { DB: db } as unknown as Env;
+
+    await check(env, 'first@example.com');
+    const firstRequestQueries = db.queries.length;
+    await check(env, 'second@example.com');
+
+    const secondRequestQueries = db.queries.slice(firstRequestQueries);
+    expect(db.queries.filter((query) => query.includes('FROM schema_migrations'))).toHaveLength(1);
+    expect(secondRequestQueries.some((query) => query.startsWith('CREATE') || query.includes('pragma_table_info'))).toBe(
+      false
+    );
+  });
+});
+
+describe('admin migrations endpoint', () => {
+  async function adminEnv(): Promise<{ env: Env; cookie: string }> {
+    const env = {
+      DB: new SqliteD1Database(),
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+    } as unknown as Env;
+
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+      }),
+      env,
+      ctx
+    );
+
+    return { env, cookie: (response.headers.get('set-cookie') ?? '').split(';')[0] };
+  }
+
+  it('requires an admin session', async () => {
+    const { env } = await adminEnv();
+    const response = await worker.fetch(new Request('https://example.com/api/admin/migrations'), env, ctx);
+    expect(response.status).toBe(401);
+  });
+
+  it('reports applied and pending migrations', async () => {
+    const { env, cookie } = await adminEnv();
+
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/migrations', { headers: { cookie } }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.success).toBe(true);
+    expect(body.latestVersion).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    expect(body.currentVersion).toBe(body.latestVersion);
+    expect(body.applied[0]).toMatchObject({ version: 1, name: 'baseline' });
+    expect(body.pending).toEqual([]);
+  });
+
+  it('applies pending migrations on POST', async () => {
+    const { env, cookie } = await adminEnv();
+    (env.DB as unknown as SqliteD1Database).exec('DELETE FROM schema_migrations');
+
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/migrations', { method: 'POST', headers: { cookie } }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.appliedNow).toEqual(MIGRATIONS.map(({ version, name }) => ({ version, name })));
+    expect(body.pending).toEqual([]);
+  });
+
+  it('stays reachable while a new migration fails', async () => {
+    const db = new SqliteD1Database();
+    await migrate(db);
+    const env = {
+      DB: db,
+      ADMIN_EMAIL: 'admin@example.com',
+      ADMIN_PASSWORD: 'secret',
+      SESSION_SECRET: 'test-secret',
+    } as unknown as Env;
+
+    const migrations = MIGRATIONS as Migration[];
+    const failing: Migration = {
+      version: migrations[migrations.length - 1].version + 1,
+      name: 'broken',
+      async up() {
+        throw new Error('no such table: nowhere');
+      },
+    };
+    migrations.push(failing);
+
+    try {
+      const login = await worker.fetch(
+        new Request('https://example.com/api/admin/login', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ email: 'admin@example.com', password: 'secret' }),
+        }),
+        env,
+        ctx
+      );
+      expect(login.status).toBe(200);
+      const cookie = (login.headers.get('set-cookie') ?? '').split(';')[0];
+
+      const status = await worker.fetch(
+        new Request('https://example.com/api/admin/migrations', { headers: { cookie } }),
+        env,
+        ctx
+      );
+      expect(status.status).toBe(200);
+      expect((await status.json()).pending).toEqual([{ version: failing.version, name: 'broken' }]);
+
+      const retry = await worker.fetch(
+        new Request('https://example.com/api/admin/migrations', { method: 'POST', headers: { cookie } }),
+        env,
+        ctx
+      );
+      expect(retry.status).toBe(500);
+      const body = await retry.json();
+      expect(body.error).toBe('Migration failed: no such table: nowhere');
+      expect(body.pending).toEqual([{ version: failing.version, name: 'broken' }]);
+    } finally {
+      migrations.pop();
+    }
+  });
+
+  it('rejects other methods', async () => {
+    const { env, cookie } = await adminEnv();
+    const response = await worker.fetch(
+      new Request('https://example.com/api/admin/migrations', { method: 'DELETE', headers: { cookie } }),
+      env,
+      ctx
+    );
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET,POST,OPTIONS');
+  });
+});
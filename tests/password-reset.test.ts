@@ -0,0 +1,109 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedToken, type TestWorker } from './support/worker';
+
+describe('password reset', () => {
+  let app: TestWorker;
+
+  async function requestResetToken(email: string): Promise<string> {
+    const response = await app.post('/api/password/forgot', { email });
+    expect(response.status).toBe(202);
+    return emailedToken();
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ SITE_BASE_URL: 'https://solarroots.example.com' });
+    const now = new Date().toISOString();
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', 'member@example.com', now);
+    app.db.exec(
+      "INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, 'Solar Fan', 'Bio', 'old-hash', ?, ?)",
+      'member@example.com',
+      now,
+      now
+    );
+  });
+
+  it('emails a reset link and stores only a hash of the token', async () => {
+    const token = await requestResetToken('Member@Example.com');
+
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0].to).toBe('member@example.com');
+    expect(memoryOutbox[0].subject).toBe('Reset your Solar Roots password');
+    expect(memoryOutbox[0].text).toContain('https://solarroots.example.com/reset-password.html?token=');
+    expect(token).toHaveLength(64);
+
+    const stored = app.db.rows<{ token_hash: string }>('SELECT token_hash FROM password_resets');
+    expect(stored).toHaveLength(1);
+    expect(stored[0].token_hash).not.toBe(token);
+  });
+
+  it('gives the same answer for unknown emails without sending anything', async () => {
+    const response = await app.post('/api/password/forgot', { email: 'stranger@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way.',
+    });
+    expect(memoryOutbox).toHaveLength(0);
+  });
+
+  it('limits how many reset emails one address can trigger', async () => {
+    const forgot = (email: string, ip: string) => app.post('/api/password/forgot', { email }, { 'CF-Connecting-IP': ip });
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      expect((await forgot('member@example.com', `198.51.100.${attempt}`)).status).toBe(202);
+    }
+
+    const blocked = await forgot('Member@Example.com', '198.51.100.9');
+    expect(blocked.status).toBe(429);
+    expect(memoryOutbox).toHaveLength(3);
+  });
+
+  it('resets the password once and signs out existing sessions', async () => {
+    app.db.exec(
+      "INSERT INTO sessions (id, email, role, created_at, expires_at) VALUES ('s1', 'member@example.com', 'member', ?, ?)",
+      new Date().toISOString(),
+      new Date(Date.now() + 60_000).toISOString()
+    );
+    const token = await requestResetToken('member@example.com');
+
+    const response = await app.post('/api/password/reset', { token, password: 'brand-new-pass' });
+    expect(response.status).toBe(200);
+
+    const profile = app.db.row<{ password_hash: string }>('SELECT password_hash FROM profiles');
+    expect(profile?.password_hash).toMatch(/^pbkdf2-sha256\$/);
+    expect(app.db.rows('SELECT id FROM sessions')).toHaveLength(0);
+
+    const login = await app.post('/api/login', { email: 'member@example.com', password: 'brand-new-pass' });
+    expect(login.status).toBe(200);
+
+    const replay = await app.post('/api/password/reset', { token, password: 'another-pass' });
+    expect(replay.status).toBe(400);
+  });
+
+  it('rejects expired tokens and tokens superseded by a newer request', async () => {
+    const first = await requestResetToken('member@example.com');
+    const second = await requestResetToken('member@example.com');
+
+    expect((await app.post('/api/password/reset', { token: first, password: 'brand-new-pass' })).status).toBe(400);
+
+    app.db.exec('UPDATE password_resets SET expires_at = ?', new Date(Date.now() - 1000).toISOString());
+    const expired = await app.post('/api/password/reset', { token: second, password: 'brand-new-pass' });
+    expect(expired.status).toBe(400);
+    expect((await expired.json()).error).toBe('This reset link is invalid or has expired. Please request a new one.');
+  });
+
+  it('enforces the password length', async () => {
+    const token = await requestResetToken('member@example.com');
+    const response = await app.post('/api/password/reset', { token, password: 'short' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Password must be at least 8 characters long.',
+      code: 'validation_failed',
+      fields: { password: { code: 'too_short', message: 'Password must be at least 8 characters long.' } },
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, emailedLink, emailedToken, sessionCookie, type TestWorker } from './support/worker';
+
+describe('profile ownership', () => {
+  let app: TestWorker;
+
+  async function login(email: string, password: string): Promise<string> {
+    const response = await app.post('/api/login', { email, password });
+    expect(response.status).toBe(200);
+    return sessionCookie(response);
+  }
+
+  /** Subscribes and confirms `email`, returning the setup token from the welcome email. */
+  async function confirmSubscriber(email: string): Promise<string> {
+    await app.post('/api/subscribe', { email });
+    const page = await app.fetch(emailedLink(email));
+    expect(page.status).toBe(200);
+    return emailedToken(email, /https:\/\/\S+signup\S+/);
+  }
+
+  function passwordHash(email: string): string | null {
+    return app.db.row<{ password_hash: string | null }>('SELECT password_hash FROM profiles WHERE email = ?', email)
+      ?.password_hash ?? null;
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker();
+  });
+
+  it('offers a profile link on the confirmation page', async () => {
+    await app.post('/api/subscribe', { email: 'victim@example.com' });
+    const page = await (await app.fetch(emailedLink())).text();
+
+    expect(page).toMatch(/<a class="button" href="https:\/\/example\.com\/signup\.html\?token=[0-9a-f]{64}">/);
+  });
+
+  it('does not let anyone create a profile for an address they only know', async () => {
+    await confirmSubscriber('victim@example.com');
+
+    const response = await app.post('/api/profile', {
+      email: 'victim@example.com',
+      name: 'Mallory',
+      bio: 'Not the owner.',
+      password: 'attacker-password',
+    });
+
+    expect(response.status).toBe(401);
+    expect(app.db.row('SELECT COUNT(*) AS count FROM profiles')).toEqual({ count: 0 });
+  });
+
+  it('only creates the profile for the address the token was sent to', async () => {
+    await confirmSubscriber('victim@example.com');
+    const attackerToken = await confirmSubscriber('mallory@example.com');
+
+    const response = await app.post('/api/profile', {
+      token: attackerToken,
+      email: 'victim@example.com',
+      name: 'Mallory',
+      bio: 'Not the owner.',
+      password: 'attacker-password',
+    });
+
+    expect(response.status).toBe(200);
+    expect(app.db.rows('SELECT email FROM profiles')).toEqual([{ email: 'mallory@example.com' }]);
+  });
+
+  it('does not let a setup token overwrite an existing password', async () => {
+    const token = await confirmSubscriber('victim@example.com');
+    expect((await app.post('/api/profile', { token, name: 'Vic', bio: 'Owner.', password: 'victim-password' })).status).toBe(200);
+    const original = passwordHash('victim@example.com');
+
+    const replay = await app.post('/api/profile', { token, name: 'Mallory', bio: 'Took over.', password: 'attacker-password' });
+    const reissued = await app.post('/api/profile/setup-link', { email: 'victim@example.com' });
+
+    expect(replay.status).toBe(400);
+    expect((await replay.json()).fields.token).toEqual({
+      code: 'invalid_token',
+      message: 'This profile link is invalid or has expired. Please request a new one.',
+    });
+    expect(reissued.status).toBe(202);
+    expect(memoryOutbox.some((message) => message.subject === 'Set up your Solar Roots profile')).toBe(false);
+    expect(passwordHash('victim@example.com')).toBe(original);
+    expect(app.db.row('SELECT name FROM profiles')).toEqual({ name: 'Vic' });
+  });
+
+  it('changes a profile from a signed-in session and needs the current password for a new one', async () => {
+    const token = await confirmSubscriber('owner@example.com');
+    await app.post('/api/profile', { token, name: 'Owner', bio: 'Hello.', password: 'first-password' });
+    const cookie = await login('owner@example.com', 'first-password');
+    const otherDevice = await login('owner@example.com', 'first-password');
+
+    const renamed = await app.post('/api/profile', { name: 'Renamed', bio: 'Updated bio.' }, { cookie });
+    const wrongCurrent = await app.post(
+      '/api/profile',
+      { name: 'Renamed', bio: 'Updated bio.', password: 'second-password', currentPassword: 'guess' },
+      { cookie }
+    );
+    const changed = await app.post(
+      '/api/profile',
+      { name: 'Renamed', bio: 'Updated bio.', password: 'second-password', currentPassword: 'first-password' },
+      { cookie }
+    );
+
+    expect(renamed.status).toBe(200);
+    expect(await renamed.json()).toEqual({ success: true, message: 'Profile updated successfully.' });
+    expect(wrongCurrent.status).toBe(400);
+    expect((await wrongCurrent.json()).fields).toEqual({
+      currentPassword: { code: 'incorrect_password', message: 'Your current password is incorrect.' },
+    });
+    expect(changed.status).toBe(200);
+    expect(app.db.row('SELECT name, bio FROM profiles')).toEqual({ name: 'Renamed', bio: 'Updated bio.' });
+    expect(await login('owner@example.com', 'second-password')).toContain('sr_session=');
+
+    const me = (cookieHeader: string) => app.fetch('/api/me', { headers: { cookie: cookieHeader } });
+    expect((await me(cookie)).status).toBe(200);
+    expect((await me(otherDevice)).status).toBe(401);
+  });
+
+  it('sends a fresh setup link to confirmed subscribers without a profile', async () => {
+    await confirmSubscriber('late@example.com');
+    memoryOutbox.length = 0;
+
+    const response = await app.post('/api/profile/setup-link', { email: 'late@example.com' });
+    const unknown = await app.post('/api/profile/setup-link', { email: 'nobody@example.com' });
+
+    expect(response.status).toBe(202);
+    expect(await unknown.json()).toEqual(await response.json());
+    expect(memoryOutbox.map((message) => [message.to, message.subject])).toEqual([
+      ['late@example.com', 'Set up your Solar Roots profile'],
+    ]);
+
+    const token = emailedToken();
+    const created = await app.post('/api/profile', { token, name: 'Late', bio: 'Better late.', password: 'late-password' });
+    expect(created.status).toBe(200);
+  });
+});
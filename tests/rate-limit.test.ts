@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, type TestWorker } from './support/worker';
+
+describe('rate limiting', () => {
+  let app: TestWorker;
+
+  function adminLogin(email: string, ip: string): Promise<Response> {
+    return app.post('/api/admin/login', { email, password: 'wrong' }, { 'CF-Connecting-IP': ip });
+  }
+
+  function check(email: string, ip: string): Promise<Response> {
+    return app.post('/api/check', { email }, { 'CF-Connecting-IP': ip });
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({ ADMIN_EMAIL: 'admin@example.com', ADMIN_PASSWORD: 'secret' });
+  });
+
+  it('blocks an IP once its window is full', async () => {
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const response = await adminLogin(`user${attempt}@example.com`, '203.0.113.1');
+      expect(response.status).toBe(401);
+    }
+
+    const blocked = await adminLogin('user9@example.com', '203.0.113.1');
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await blocked.json()).toEqual({ success: false, error: 'Too many requests. Please try again later.' });
+
+    const otherIp = await adminLogin('user9@example.com', '203.0.113.2');
+    expect(otherIp.status).toBe(401);
+  });
+
+  it('blocks an email across IPs', async () => {
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      await adminLogin('Admin@Example.com', `198.51.100.${attempt}`);
+    }
+
+    const blocked = await adminLogin('admin@example.com', '198.51.100.99');
+    expect(blocked.status).toBe(429);
+  });
+
+  it('lets requests through again once the oldest hit leaves the window', async () => {
+    for (let attempt = 0; attempt < 30; attempt += 1) {
+      await check('sunny@example.com', '192.0.2.7');
+    }
+    expect((await check('sunny@example.com', '192.0.2.7')).status).toBe(429);
+
+    const past = Date.now() - 61 * 1000;
+    app.db.exec(
+      'UPDATE rate_limit_hits SET hit_at = ?, expires_at = ? WHERE id = (SELECT MIN(id) FROM rate_limit_hits)',
+      past,
+      past + 60 * 1000
+    );
+
+    expect((await check('sunny@example.com', '192.0.2.7')).status).toBe(200);
+    expect((await check('sunny@example.com', '192.0.2.7')).status).toBe(429);
+  });
+
+  it('does not record blocked requests as hits', async () => {
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      await adminLogin('admin@example.com', '203.0.113.5');
+    }
+
+    expect(app.db.rows("SELECT id FROM rate_limit_hits WHERE key LIKE 'adminLogin:ip:%'")).toHaveLength(5);
+  });
+
+  it('allows requests when the limiter storage fails', async () => {
+    await check('sunny@example.com', '192.0.2.7');
+    // The schema check is memoized, so the dropped table is not recreated.
+    app.db.exec('DROP TABLE rate_limit_hits');
+
+    const response = await check('sunny@example.com', '192.0.2.7');
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,88 @@
+import worker, { type Env } from '../src/index';
+import { matchPath, resolveRoute } from '../src/router';
+import { describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+describe('route matching', () => {
+  const routes = [
+    { path: '/api/items', methods: ['GET', 'POST'] },
+    { path: '/api/items/:id', methods: ['GET'] },
+    { path: '/api/items/:id', methods: ['DELETE'] },
+    { path: '/api/items/:id/archive', methods: ['POST'] },
+  ];
+
+  it('extracts decoded params from matching segments', () => {
+    expect(matchPath('/api/items/:id', '/api/items/a%20b')).toEqual({ id: 'a b' });
+    expect(matchPath('/api/items/:id', '/api/items/')).toBeNull();
+    expect(matchPath('/api/items/:id', '/api/items/1/archive')).toBeNull();
+    expect(matchPath('/api/items/:id', '/api/items/%E0%A4%A')).toBeNull();
+  });
+
+  it('picks the route whose method matches', () => {
+    const resolved = resolveRoute(routes, 'DELETE', '/api/items/42');
+
+    expect(resolved).toEqual({ status: 'matched', route: routes[2], params: { id: '42' } });
+  });
+
+  it('collects the methods of every route on the path when none match', () => {
+    expect(resolveRoute(routes, 'PUT', '/api/items/42')).toEqual({
+      status: 'method-not-allowed',
+      allowed: ['GET', 'DELETE'],
+    });
+    expect(resolveRoute(routes, 'GET', '/api/other')).toEqual({ status: 'not-found' });
+  });
+});
+
+describe('worker routing', () => {
+  const ctx: ExecutionContext = {
+    waitUntil() {
+      // no-op for tests
+    },
+  };
+
+  function env(): Env {
+    return {
+      DB: new SqliteD1Database(),
+      ASSETS: { fetch: async (request: Request) => new Response(`asset ${new URL(request.url).pathname}`) },
+    } as unknown as Env;
+  }
+
+  it('answers unknown API paths with a JSON 404 instead of a static page', async () => {
+    const response = await worker.fetch(new Request('https://example.com/api/nope'), env(), ctx);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'Not Found' });
+  });
+
+  it('answers the wrong method on an API route with a JSON 405 and Allow header', async () => {
+    const response = await worker.fetch(new Request('https://example.com/api/profile'), env(), ctx);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST,OPTIONS');
+    expect(await response.json()).toEqual({ success: false, error: 'Method Not Allowed' });
+  });
+
+  it('keeps plain-text 405s for page routes', async () => {
+    const response = await worker.fetch(new Request('https://example.com/confirm', { method: 'DELETE' }), env(), ctx);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET,OPTIONS');
+    expect(await response.text()).toBe('Method Not Allowed');
+  });
+
+  it('checks the method before requiring an admin session', async () => {
+    const wrongMethod = await worker.fetch(new Request('https://example.com/api/admin/export', { method: 'POST' }), env(), ctx);
+    const anonymous = await worker.fetch(new Request('https://example.com/api/admin/export'), env(), ctx);
+
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('GET,OPTIONS');
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('set-cookie')).toContain('sr_admin=;');
+  });
+
+  it('serves everything else from static assets', async () => {
+    const response = await worker.fetch(new Request('https://example.com/apiary.html'), env(), ctx);
+
+    expect(await response.text()).toBe('asset /apiary.html');
+  });
+});
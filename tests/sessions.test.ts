@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, sessionCookie, type TestWorker } from './support/worker';
+
+async function sha256Hex(value: string): Promise<string> {
+  const data = new TextEncoder().encode(value);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+describe('member sessions', () => {
+  let app: TestWorker;
+
+  function login(email: string, password: string, cookie?: string): Promise<Response> {
+    return app.post('/api/login', { email, password }, cookie ? { cookie } : {});
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker();
+
+    const now = new Date().toISOString();
+    app.db.exec('INSERT INTO subscriptions (email, created_at, confirmed) VALUES (?, ?, 1)', 'member@example.com', now);
+    app.db.exec(
+      'INSERT INTO profiles (email, name, bio, password_hash, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      'member@example.com',
+      'Solar Fan',
+      'Loves sunshine.',
+      await sha256Hex('password123'),
+      now,
+      now
+    );
+  });
+
+  it('issues an HttpOnly session cookie backed by a sessions row', async () => {
+    const response = await login('member@example.com', 'password123');
+
+    expect(response.status).toBe(200);
+    const header = response.headers.get('set-cookie') ?? '';
+    expect(header).toContain('HttpOnly');
+    expect(header).toContain('SameSite=Lax');
+
+    const [id] = sessionCookie(response).replace('sr_session=', '').split('.');
+    const row = app.db.row<{ email: string; expires_at: string }>('SELECT email, expires_at FROM sessions WHERE id = ?', id);
+    expect(row?.email).toBe('member@example.com');
+    expect(Date.parse(row?.expires_at ?? '')).toBeGreaterThan(Date.now());
+  });
+
+  it('refuses to log in when no session secret is configured', async () => {
+    app.env.SESSION_SECRET = undefined;
+    const response = await login('member@example.com', 'password123');
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ success: false, error: 'Member sessions are not configured.' });
+    expect(app.db.rows('SELECT id FROM sessions')).toHaveLength(0);
+  });
+
+  it('returns the current profile from /api/me', async () => {
+    const cookie = sessionCookie(await login('member@example.com', 'password123'));
+
+    const response = await app.fetch('/api/me', { headers: { cookie } });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.profile).toMatchObject({ email: 'member@example.com', name: 'Solar Fan', bio: 'Loves sunshine.' });
+  });
+
+  it('rejects /api/me without a session or with a tampered cookie', async () => {
+    const anonymous = await app.fetch('/api/me');
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toEqual({ success: false, error: 'Authentication required.' });
+
+    const cookie = sessionCookie(await login('member@example.com', 'password123'));
+    const tampered = `${cookie.slice(0, -1)}${cookie.endsWith('0') ? '1' : '0'}`;
+    const response = await app.fetch('/api/me', { headers: { cookie: tampered } });
+    expect(response.status).toBe(401);
+  });
+
+  it('revokes the session on logout', async () => {
+    const cookie = sessionCookie(await login('member@example.com', 'password123'));
+
+    const logout = await app.fetch('/api/logout', { method: 'POST', headers: { cookie } });
+    expect(logout.status).toBe(200);
+    expect(logout.headers.get('set-cookie')).toContain('Max-Age=0');
+    expect(app.db.rows('SELECT id FROM sessions')).toHaveLength(0);
+
+    const me = await app.fetch('/api/me', { headers: { cookie } });
+    expect(me.status).toBe(401);
+  });
+
+  it('rejects expired sessions', async () => {
+    const cookie = sessionCookie(await login('member@example.com', 'password123'));
+    app.db.exec('UPDATE sessions SET expires_at = ?', new Date(Date.now() - 1000).toISOString());
+
+    const response = await app.fetch('/api/me', { headers: { cookie } });
+    expect(response.status).toBe(401);
+  });
+
+  it('rotates sessions older than a day and replaces an existing session on login', async () => {
+    const first = sessionCookie(await login('member@example.com', 'password123'));
+    const second = sessionCookie(await login('member@example.com', 'password123', first));
+    expect(second).not.toBe(first);
+    expect(app.db.rows('SELECT id FROM sessions')).toHaveLength(1);
+
+    app.db.exec('UPDATE sessions SET created_at = ?', new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString());
+    const response = await app.fetch('/api/me', { headers: { cookie: second } });
+
+    expect(response.status).toBe(200);
+    const rotated = sessionCookie(response);
+    expect(rotated.startsWith('sr_session=')).toBe(true);
+    expect(rotated).not.toBe(second);
+
+    const stale = await app.fetch('/api/me', { headers: { cookie: second } });
+    expect(stale.status).toBe(401);
+  });
+});
@@ -1,4 +1,5 @@
 import worker, { type Env } from '../src/index';
+import { memoryOutbox } from '../src/mail';
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 
 type OperationKind = 'first' | 'run';
@@ -23,6 +24,7 @@ interface SubscriptionRecord {
   email: string;
   confirmed: number;
   confirmation_token?: string | null;
+  token_created_at?: string | null;
 }
 
 class MockPreparedStatement implements D1PreparedStatement {
@@ -50,8 +52,10 @@ class MockD1Database implements D1Database {
   updatedRow: unknown[] | null = null;
   profileInsertedRow: unknown[] | null = null;
   alteredSubscriptionColumns: string[] = [];
+  schemaVersion: number | null = null;
   private subscriptionSelectResult: SubscriptionRecord | null;
   private profileSelectResult: { password_hash: string | null } | null = null;
+  private emailTokenSelectResult: { email: string } | null = null;
   private passwordColumnExists = true;
   private subscriptionColumns: Record<string, boolean> = {
     email: true,
@@ -60,6 +64,8 @@ class MockD1Database implements D1Database {
     confirmed: true,
     confirmation_token: true,
     token_created_at: true,
+    unsubscribed_at: true,
+    unsubscribe_reason: true,
   };
 
   constructor(initialSelectResult: SubscriptionRecord | null = null) {
@@ -70,6 +76,14 @@ class MockD1Database implements D1Database {
     return new MockPreparedStatement(this, query);
   }
 
+  async batch<T = unknown>(statements: D1PreparedStatement[]): Promise<T[]> {
+    const results: T[] = [];
+    for (const statement of statements) {
+      results.push(await statement.run<T>());
+    }
+    return results;
+  }
+
   setSelectResult(record: SubscriptionRecord | null): void {
     this.subscriptionSelectResult = record;
   }
@@ -78,6 +92,10 @@ class MockD1Database implements D1Database {
     this.profileSelectResult = record;
   }
 
+  setEmailTokenSelectResult(record: { email: string } | null): void {
+    this.emailTokenSelectResult = record;
+  }
+
   setPasswordColumnExists(value: boolean): void {
     this.passwordColumnExists = value;
   }
@@ -91,6 +109,22 @@ class MockD1Database implements D1Database {
 
     const normalizedQuery = query.trim().toUpperCase();
 
+    if (normalizedQuery.includes('FROM LOGIN_ATTEMPTS')) {
+      return Promise.resolve({ failures: 0 } as unknown as T);
+    }
+
+    if (normalizedQuery.includes('FROM ACCOUNT_LOCKOUTS')) {
+      return Promise.resolve(null);
+    }
+
+    if (normalizedQuery.includes('FROM RATE_LIMIT_HITS')) {
+      return Promise.resolve({ hits: 0, oldest: null } as unknown as T);
+    }
+
+    if (normalizedQuery.includes('FROM SCHEMA_MIGRATIONS')) {
+      return Promise.resolve({ version: this.schemaVersion } as unknown as T);
+    }
+
     if (normalizedQuery.includes("PRAGMA_TABLE_INFO('PROFILES')")) {
       if (this.passwordColumnExists) {
         return Promise.resolve({ name: 'password_hash' } as unknown as T);
@@ -99,6 +133,10 @@ class MockD1Database implements D1Database {
       return Promise.resolve(null);
     }
 
+    if (normalizedQuery.includes("PRAGMA_TABLE_INFO('SESSIONS')")) {
+      return Promise.resolve({ name: bindings[0] } as unknown as T);
+    }
+
     if (normalizedQuery.includes("PRAGMA_TABLE_INFO('SUBSCRIPTIONS')")) {
       const column = typeof bindings[0] === 'string' ? bindings[0] : '';
       if (column && this.subscriptionColumns[column as keyof typeof this.subscriptionColumns]) {
@@ -116,6 +154,10 @@ class MockD1Database implements D1Database {
       return Promise.resolve(this.profileSelectResult as unknown as T | null);
     }
 
+    if (normalizedQuery.includes('FROM EMAIL_TOKENS')) {
+      return Promise.resolve(this.emailTokenSelectResult as unknown as T | null);
+    }
+
     throw new Error(`Unexpected first() query: ${query}`);
   }
 
@@ -123,12 +165,27 @@ class MockD1Database implements D1Database {
     this.operations.push({ query, bindings, kind: 'run' });
     const normalizedQuery = query.trim().toUpperCase();
 
-    if (normalizedQuery.startsWith('CREATE TABLE')) {
+    if (
+      normalizedQuery.startsWith('CREATE TABLE') ||
+      normalizedQuery.startsWith('CREATE INDEX') ||
+      normalizedQuery.startsWith('CREATE TRIGGER')
+    ) {
       return Promise.resolve({} as T);
     }
 
     if (normalizedQuery.startsWith('INSERT')) {
-      if (normalizedQuery.includes('INTO PROFILES')) {
+      if (
+        normalizedQuery.includes('INTO RATE_LIMIT_HITS') ||
+        normalizedQuery.includes('INTO LOGIN_ATTEMPTS') ||
+        normalizedQuery.includes('INTO CONSENT_EVENTS') ||
+        normalizedQuery.includes('INTO EMAIL_OUTBOX')
+      ) {
+        return Promise.resolve({} as T);
+      }
+
+      if (normalizedQuery.includes('INTO SCHEMA_MIGRATIONS')) {
+        this.schemaVersion = Math.max(this.schemaVersion ?? 0, Number(bindings[0]));
+      } else if (normalizedQuery.includes('INTO PROFILES')) {
         this.profileInsertedRow = bindings;
       } else {
         this.insertedRow = bindings;
@@ -136,8 +193,16 @@ class MockD1Database implements D1Database {
       return Promise.resolve({} as T);
     }
 
+    if (normalizedQuery.startsWith('UPDATE EMAIL_OUTBOX')) {
+      return Promise.resolve({} as T);
+    }
+
     if (normalizedQuery.startsWith('UPDATE')) {
       this.updatedRow = bindings;
+      return Promise.resolve({ success: true, meta: { changes: 1 } } as T);
+    }
+
+    if (normalizedQuery.startsWith('DELETE')) {
       return Promise.resolve({} as T);
     }
 
@@ -164,25 +229,79 @@ class MockD1Database implements D1Database {
   }
 }
 
+// Migration, rate limiter, login and consent audit and outbox queries run
+// alongside the handlers; assertions about what a handler reads or writes
+// ignore them.
+function isBookkeeping(query: string): boolean {
+  return [
+    'schema_migrations',
+    'rate_limit_hits',
+    'login_attempts',
+    'account_lockouts',
+    'consent_events',
+    'email_outbox',
+  ].some((table) => query.includes(table));
+}
+
+function handlerOperations(db: MockD1Database): OperationRecord[] {
+  return db.operations.filter(
+    ({ query }) => !isBookkeeping(query) && !/^(CREATE|ALTER)|pragma_table_info/i.test(query.trim())
+  );
+}
+
+// Handlers run the schema check before touching the database. Look for the
+// tables they rely on instead of counting statements, which changes with
+// every migration.
+function expectSchemaChecked(queries: string[]): void {
+  expect(queries).toContainEqual(expect.stringMatching(/^CREATE TABLE IF NOT EXISTS subscriptions \(/));
+  expect(queries).toContainEqual(expect.stringMatching(/^CREATE TABLE IF NOT EXISTS profiles \(/));
+  expect(queries).toContainEqual(expect.stringContaining("pragma_table_info('subscriptions')"));
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
 async function sha256Hex(value: string): Promise<string> {
   const data = new TextEncoder().encode(value);
   const digest = await crypto.subtle.digest('SHA-256', data);
-  return Array.from(new Uint8Array(digest))
-    .map((byte) => byte.toString(16).padStart(2, '0'))
-    .join('');
+  return toHex(digest);
+}
+
+async function pbkdf2Hash(value: string, iterations = 100000): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(value), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return `pbkdf2-sha256$${iterations}$${toHex(salt)}$${toHex(bits)}`;
+}
+
+// Runs a request with mail captured in memory and waits for the work it
+// hands to waitUntil, such as sending the confirmation email.
+async function send(request: Request, db: MockD1Database, vars: Partial<Env> = {}): Promise<Response> {
+  const pending: Promise<unknown>[] = [];
+  const ctx: ExecutionContext = {
+    waitUntil(promise) {
+      pending.push(promise);
+    },
+  };
+
+  const env = { DB: db, MAIL_TRANSPORT: 'memory', ...vars } as unknown as Env;
+  const response = await worker.fetch(request, env, ctx);
+  await Promise.all(pending);
+  return response;
 }
 
 describe('subscribe handler', () => {
-  const originalFetch = globalThis.fetch;
   const originalRandomUUID = crypto.randomUUID.bind(crypto);
 
   beforeEach(() => {
-    globalThis.fetch = originalFetch;
+    memoryOutbox.length = 0;
     (crypto as unknown as { randomUUID: () => string }).randomUUID = originalRandomUUID;
   });
 
   afterEach(() => {
-    globalThis.fetch = originalFetch;
     (crypto as unknown as { randomUUID: () => string }).randomUUID = originalRandomUUID;
   });
 
@@ -195,32 +314,20 @@ describe('subscribe handler', () => {
       body: JSON.stringify(['invalid']),
     });
 
-    const waitUntilCalls: Promise<unknown>[] = [];
-    const ctx: ExecutionContext = {
-      waitUntil(promise) {
-        waitUntilCalls.push(promise);
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
 
     expect(response.status).toBe(400);
     expect(await response.json()).toEqual({
       success: false,
       error: 'Invalid JSON body.',
+      code: 'invalid_json',
     });
-    expect(db.operations.length).toBe(0);
-    expect(waitUntilCalls.length).toBe(0);
+    expect(handlerOperations(db)).toHaveLength(0);
+    expect(memoryOutbox).toHaveLength(0);
   });
 
   it('creates a subscription and sends a confirmation email', async () => {
     const db = new MockD1Database(null);
-    const fetchCalls: Array<[RequestInfo, RequestInit | undefined]> = [];
-    globalThis.fetch = (async (input: RequestInfo, init?: RequestInit) => {
-      fetchCalls.push([input, init]);
-      return new Response('', { status: 200 });
-    }) as typeof fetch;
-
     const token = 'test-token';
     (crypto as unknown as { randomUUID: () => string }).randomUUID = () => token;
 
@@ -230,19 +337,7 @@ describe('subscribe handler', () => {
       body: JSON.stringify({ email: 'Test@Example.com' }),
     });
 
-    const waitUntilPromises: Promise<unknown>[] = [];
-    const ctx: ExecutionContext = {
-      waitUntil(promise) {
-        waitUntilPromises.push(promise);
-      },
-    };
-
-    const env: Env = {
-      DB: db as unknown as D1Database,
-      SITE_BASE_URL: 'https://solarroots.example.com',
-    };
-
-    const response = await worker.fetch(request, env, ctx);
+    const response = await send(request, db, { SITE_BASE_URL: 'https://solarroots.example.com' });
     const body = await response.json();
 
     expect(response.status).toBe(202);
@@ -252,17 +347,8 @@ describe('subscribe handler', () => {
     });
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
     expect(queries.some((query) => query.startsWith('INSERT'))).toBe(true);
     expect(queries.some((query) => query.startsWith('ALTER TABLE SUBSCRIPTIONS'))).toBe(false);
@@ -277,18 +363,11 @@ describe('subscribe handler', () => {
       expect(Number.isNaN(Date.parse(createdAt as string))).toBe(false);
     }
 
-    expect(waitUntilPromises.length).toBe(1);
-    await Promise.all(waitUntilPromises);
-
-    expect(fetchCalls.length).toBe(1);
-    const [url, init] = fetchCalls[0];
-    expect(url).toBe('https://api.mailchannels.net/tx/v1/send');
-    expect(init).toBeDefined();
-    const requestBody = JSON.parse(String(init?.body ?? ''));
-    expect(requestBody.personalizations[0].to[0].email).toBe('test@example.com');
+    expect(memoryOutbox).toHaveLength(1);
+    expect(memoryOutbox[0].to).toBe('test@example.com');
     const confirmationLink = 'https://solarroots.example.com/confirm?token=test-token&email=test%40example.com';
-    expect(requestBody.content[0].value).toContain(confirmationLink);
-    expect(requestBody.content[1].value).toContain(confirmationLink);
+    expect(memoryOutbox[0].text).toContain(confirmationLink);
+    expect(memoryOutbox[0].html).toContain(confirmationLink.replace('&', '&amp;'));
   });
 
   it('adds missing subscription columns for legacy databases before querying', async () => {
@@ -299,30 +378,13 @@ describe('subscribe handler', () => {
     db.setSubscriptionColumnExists('confirmation_token', false);
     db.setSubscriptionColumnExists('token_created_at', false);
 
-    const fetchCalls: Array<[RequestInfo, RequestInit | undefined]> = [];
-    globalThis.fetch = (async (input: RequestInfo, init?: RequestInit) => {
-      fetchCalls.push([input, init]);
-      return new Response('', { status: 200 });
-    }) as typeof fetch;
-
     const request = new Request('https://example.com/api/subscribe', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({ email: 'legacy@example.com' }),
     });
 
-    const waitUntilCalls: Promise<unknown>[] = [];
-    const ctx: ExecutionContext = {
-      waitUntil(promise) {
-        waitUntilCalls.push(promise);
-      },
-    };
-
-    const env: Env = {
-      DB: db as unknown as D1Database,
-    };
-
-    const response = await worker.fetch(request, env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(202);
@@ -335,8 +397,7 @@ describe('subscribe handler', () => {
       expect.arrayContaining(['created_at', 'updated_at', 'confirmed', 'confirmation_token', 'token_created_at'])
     );
     expect(db.alteredSubscriptionColumns).toHaveLength(5);
-    expect(fetchCalls.length).toBe(1);
-    expect(waitUntilCalls.length).toBe(1);
+    expect(memoryOutbox).toHaveLength(1);
   });
 
   it('acknowledges already-confirmed subscriptions without sending email', async () => {
@@ -347,30 +408,13 @@ describe('subscribe handler', () => {
     };
     const db = new MockD1Database(existing);
 
-    const fetchCalls: Array<[RequestInfo, RequestInit | undefined]> = [];
-    globalThis.fetch = (async (input: RequestInfo, init?: RequestInit) => {
-      fetchCalls.push([input, init]);
-      return new Response('', { status: 200 });
-    }) as typeof fetch;
-
     const request = new Request('https://example.com/api/subscribe', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({ email: 'user@example.com' }),
     });
 
-    const waitUntilCalls: Promise<unknown>[] = [];
-    const ctx: ExecutionContext = {
-      waitUntil(promise) {
-        waitUntilCalls.push(promise);
-      },
-    };
-
-    const env: Env = {
-      DB: db as unknown as D1Database,
-    };
-
-    const response = await worker.fetch(request, env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(200);
@@ -380,22 +424,12 @@ describe('subscribe handler', () => {
     });
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
     expect(db.insertedRow).toBeNull();
     expect(db.updatedRow).toBeNull();
-    expect(fetchCalls.length).toBe(0);
-    expect(waitUntilCalls.length).toBe(0);
+    expect(memoryOutbox).toHaveLength(0);
   });
 });
 
@@ -405,6 +439,7 @@ describe('confirmation handler', () => {
       email: 'user@example.com',
       confirmed: 0,
       confirmation_token: 'valid-token',
+      token_created_at: new Date().toISOString(),
     };
 
     const db = new MockD1Database(existing);
@@ -413,30 +448,15 @@ describe('confirmation handler', () => {
       method: 'GET',
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.text();
 
     expect(response.status).toBe(200);
     expect(body).toContain('Your email has been confirmed');
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(true);
 
@@ -462,30 +482,15 @@ describe('confirmation handler', () => {
       method: 'GET',
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.text();
 
     expect(response.status).toBe(400);
     expect(body).toContain('confirmation link is no longer valid');
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
     expect(db.updatedRow).toBeNull();
   });
@@ -501,17 +506,16 @@ describe('subscription check handler', () => {
       body: JSON.stringify({}),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
 
     expect(response.status).toBe(400);
-    expect(await response.json()).toEqual({ success: false, error: 'Invalid request.' });
-    expect(db.operations.length).toBe(0);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Email is required.',
+      code: 'validation_failed',
+      fields: { email: { code: 'required', message: 'Email is required.' } },
+    });
+    expect(handlerOperations(db)).toHaveLength(0);
   });
 
   it('indicates when an email has not subscribed yet', async () => {
@@ -523,32 +527,17 @@ describe('subscription check handler', () => {
       body: JSON.stringify({ email: 'NewUser@example.com' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(200);
     expect(body).toEqual({ success: true, exists: false, message: 'This email is available.' });
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
+    expect(queries.some((query) => query.startsWith('INSERT') && !isBookkeeping(query))).toBe(false);
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
     expect(queries.some((query) => query.startsWith('ALTER TABLE SUBSCRIPTIONS'))).toBe(false);
   });
@@ -567,32 +556,17 @@ describe('subscription check handler', () => {
       body: JSON.stringify({ email: 'user@example.com' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(200);
     expect(body).toEqual({ success: true, exists: true, message: 'This email is already subscribed.' });
 
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
+    expectSchemaChecked(queries);
     expect(queries.some((query) => query.startsWith('SELECT'))).toBe(true);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
+    expect(queries.some((query) => query.startsWith('INSERT') && !isBookkeeping(query))).toBe(false);
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
     expect(queries.some((query) => query.startsWith('ALTER TABLE SUBSCRIPTIONS'))).toBe(false);
   });
@@ -604,16 +578,10 @@ describe('subscription check handler', () => {
       method: 'GET',
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
 
     expect(response.status).toBe(405);
-    expect(await response.text()).toBe('Method Not Allowed');
+    expect(await response.json()).toEqual({ success: false, error: 'Method Not Allowed' });
     expect(response.headers.get('allow')).toBe('POST,OPTIONS');
     expect(db.operations.length).toBe(0);
   });
@@ -629,39 +597,33 @@ describe('profile handler', () => {
       body: JSON.stringify(['invalid']),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
 
     expect(response.status).toBe(400);
-    expect(await response.json()).toEqual({ success: false, error: 'Invalid JSON body.' });
+    expect(await response.json()).toEqual({ success: false, error: 'Invalid JSON body.', code: 'invalid_json' });
     expect(db.operations.length).toBe(0);
   });
 
-  it('requires a valid email address', async () => {
-    const db = new MockD1Database();
+  it('requires a setup token or a signed-in session', async () => {
+    const db = new MockD1Database({ email: 'user@example.com', confirmed: 1 });
 
     const request = new Request('https://example.com/api/profile', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ email: 'not-an-email', name: 'Ada Lovelace', bio: 'First programmer.' }),
+      body: JSON.stringify({
+        email: 'user@example.com',
+        name: 'Ada Lovelace',
+        bio: 'First programmer.',
+        password: 'password123',
+      }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
 
-    expect(response.status).toBe(400);
-    expect(await response.json()).toEqual({ success: false, error: 'Invalid email address.' });
-    expect(db.operations.length).toBe(0);
+    expect(response.status).toBe(401);
+    expect((await response.json()).success).toBe(false);
+    expect(handlerOperations(db)).toHaveLength(0);
+    expect(db.profileInsertedRow).toBeNull();
   });
 
   it('requires both name and bio fields', async () => {
@@ -673,162 +635,102 @@ describe('profile handler', () => {
       body: JSON.stringify({ email: 'user@example.com', name: '', bio: '' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(400);
-    expect(body).toEqual({ success: false, error: 'Name is required.' });
+    expect(body).toEqual({
+      success: false,
+      error: 'Name is required.',
+      code: 'validation_failed',
+      fields: {
+        name: { code: 'required', message: 'Name is required.' },
+        bio: { code: 'required', message: 'Bio is required.' },
+      },
+    });
     expect(db.operations.length).toBe(0);
   });
 
-  it('returns 404 when the email is not subscribed', async () => {
-    const db = new MockD1Database(null);
+  it('rejects setup tokens that are unknown, used or expired', async () => {
+    const db = new MockD1Database({ email: 'user@example.com', confirmed: 1 });
 
     const request = new Request('https://example.com/api/profile', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({
-        email: 'user@example.com',
+        token: 'guessed-token',
         name: 'Solar Fan',
         password: 'password123',
         bio: 'Loves sunshine.',
       }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
-    expect(response.status).toBe(404);
-    expect(body).toEqual({ success: false, error: 'Email not found in subscriptions.' });
-    const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
-    const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
-    );
-
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(1);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
-    expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
+    expect(response.status).toBe(400);
+    expect(body.code).toBe('validation_failed');
+    expect(Object.keys(body.fields)).toEqual(['token']);
+    const queries = handlerOperations(db).map((operation) => operation.query);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toContain('FROM email_tokens');
   });
 
   it('requires a password when creating a new profile', async () => {
-    const existing: SubscriptionRecord = {
-      email: 'user@example.com',
-      confirmed: 1,
-      confirmation_token: null,
-    };
-    const db = new MockD1Database(existing);
+    const db = new MockD1Database({ email: 'user@example.com', confirmed: 1 });
+    db.setEmailTokenSelectResult({ email: 'user@example.com' });
 
     const request = new Request('https://example.com/api/profile', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({
-        email: 'user@example.com',
+        token: 'setup-token',
         name: 'Solar Fan',
         bio: 'Loves sunshine.',
       }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(400);
-    expect(body).toEqual({ success: false, error: 'Password is required to create a profile.' });
+    expect(body).toEqual({
+      success: false,
+      error: 'Password is required to create a profile.',
+      code: 'validation_failed',
+      fields: { password: { code: 'required', message: 'Password is required to create a profile.' } },
+    });
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
-    const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
-    );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(2);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
+    expectSchemaChecked(queries);
+    // The token is only used up once the profile can actually be created.
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
+    expect(queries.some((query) => query.startsWith('INSERT') && !isBookkeeping(query))).toBe(false);
   });
 
-  it('creates or updates a profile for a subscribed user', async () => {
-    const existing: SubscriptionRecord = {
-      email: 'user@example.com',
-      confirmed: 1,
-      confirmation_token: null,
-    };
-    const db = new MockD1Database(existing);
+  it('creates a profile for the address the setup token was issued to', async () => {
+    const db = new MockD1Database({ email: 'user@example.com', confirmed: 1 });
+    db.setEmailTokenSelectResult({ email: 'user@example.com' });
 
     const request = new Request('https://example.com/api/profile', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({
-        email: 'user@example.com',
+        token: 'setup-token',
+        email: 'someone-else@example.com',
         name: '  Solar Fan  ',
         password: 'password123',
         bio: ' Harnessing sunlight. ',
       }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(200);
     expect(body).toEqual({ success: true, message: 'Profile saved successfully.' });
-    const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
-    const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
-    );
-
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(2);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(true);
-    expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
+    const queries = handlerOperations(db).map((operation) => operation.query);
+    expect(queries.some((query) => query.startsWith('UPDATE email_tokens SET used_at'))).toBe(true);
 
     expect(db.profileInsertedRow).not.toBeNull();
     if (db.profileInsertedRow) {
@@ -843,7 +745,7 @@ describe('profile handler', () => {
       expect(email).toBe('user@example.com');
       expect(name).toBe('Solar Fan');
       expect(bio).toBe('Harnessing sunlight.');
-      expect(passwordHash).toHaveLength(64);
+      expect(passwordHash).toMatch(/^pbkdf2-sha256\$100000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
       expect(passwordHash).not.toBe('password123');
       expect(typeof createdAt).toBe('string');
       expect(typeof updatedAt).toBe('string');
@@ -862,13 +764,7 @@ describe('login handler', () => {
       body: JSON.stringify({ email: 'user@example.com', password: 'password123' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(404);
@@ -877,22 +773,16 @@ describe('login handler', () => {
       error: 'We could not find an account with a password for that email. Please create or update your profile first.',
     });
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
     const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
+      (query) =>
+        query.startsWith('SELECT') &&
+        !query.toLowerCase().includes('pragma_table_info') &&
+        !isBookkeeping(query)
     );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(1);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
+    expectSchemaChecked(queries);
+    expect(selectStatements).toEqual([expect.stringContaining('FROM profiles')]);
+    expect(queries.some((query) => query.startsWith('INSERT') && !isBookkeeping(query))).toBe(false);
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
   });
 
@@ -907,38 +797,26 @@ describe('login handler', () => {
       body: JSON.stringify({ email: 'user@example.com', password: 'otherpass' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db);
     const body = await response.json();
 
     expect(response.status).toBe(401);
     expect(body).toEqual({ success: false, error: 'Incorrect password. Please try again.' });
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
     const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
+      (query) =>
+        query.startsWith('SELECT') &&
+        !query.toLowerCase().includes('pragma_table_info') &&
+        !isBookkeeping(query)
     );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(1);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
+    expectSchemaChecked(queries);
+    expect(selectStatements).toEqual([expect.stringContaining('FROM profiles')]);
+    expect(queries.some((query) => query.startsWith('INSERT') && !isBookkeeping(query))).toBe(false);
     expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
   });
 
-  it('logs in successfully with the correct credentials', async () => {
+  it('logs in with a legacy SHA-256 hash and upgrades it to PBKDF2', async () => {
     const db = new MockD1Database();
     const passwordHash = await sha256Hex('password123');
     db.setProfileSelectResult({ password_hash: passwordHash });
@@ -949,34 +827,73 @@ describe('login handler', () => {
       body: JSON.stringify({ email: 'user@example.com', password: 'password123' }),
     });
 
-    const ctx: ExecutionContext = {
-      waitUntil() {
-        // no-op for tests
-      },
-    };
-
-    const response = await worker.fetch(request, { DB: db } as Env, ctx);
+    const response = await send(request, db, { SESSION_SECRET: 'test-secret' });
     const body = await response.json();
 
     expect(response.status).toBe(200);
     expect(body).toEqual({ success: true, message: 'Login successful.' });
+    expect(response.headers.get('set-cookie')).toMatch(/^sr_session=[0-9a-f]{64}\.[0-9a-f]{64}; Path=\/; HttpOnly; Secure/);
     const queries = db.operations.map((operation) => operation.query);
-    const createStatements = queries.filter((query) => query.startsWith('CREATE TABLE'));
-    const subscriptionPragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('subscriptions')")
-    );
-    const profilePragmas = queries.filter((query) =>
-      query.toLowerCase().includes("pragma_table_info('profiles')")
-    );
     const selectStatements = queries.filter(
-      (query) => query.startsWith('SELECT') && !query.toLowerCase().includes('pragma_table_info')
+      (query) =>
+        query.startsWith('SELECT') &&
+        !query.toLowerCase().includes('pragma_table_info') &&
+        !isBookkeeping(query)
     );
 
-    expect(createStatements).toHaveLength(2);
-    expect(subscriptionPragmas).toHaveLength(5);
-    expect(profilePragmas).toHaveLength(1);
-    expect(selectStatements).toHaveLength(1);
-    expect(queries.some((query) => query.startsWith('INSERT'))).toBe(false);
-    expect(queries.some((query) => query.startsWith('UPDATE'))).toBe(false);
+    expectSchemaChecked(queries);
+    expect(selectStatements).toEqual([expect.stringContaining('FROM profiles')]);
+    expect(queries.some((query) => query.startsWith('INSERT INTO sessions'))).toBe(true);
+    expect(queries.some((query) => query.startsWith('UPDATE profiles SET password_hash'))).toBe(true);
+    expect(String(db.updatedRow?.[0])).toMatch(/^pbkdf2-sha256\$100000\$/);
+    expect(db.updatedRow?.[2]).toBe('user@example.com');
+  });
+
+  it('logs in with a PBKDF2 hash without rehashing it', async () => {
+    const db = new MockD1Database();
+    db.setProfileSelectResult({ password_hash: await pbkdf2Hash('password123') });
+
+    const request = new Request('https://example.com/api/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'user@example.com', password: 'password123' }),
+    });
+
+    const response = await send(request, db, { SESSION_SECRET: 'test-secret' });
+
+    expect(response.status).toBe(200);
+    expect(db.updatedRow).toBeNull();
+  });
+
+  it('rehashes PBKDF2 hashes created with fewer iterations', async () => {
+    const db = new MockD1Database();
+    db.setProfileSelectResult({ password_hash: await pbkdf2Hash('password123', 1000) });
+
+    const request = new Request('https://example.com/api/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'user@example.com', password: 'password123' }),
+    });
+
+    const response = await send(request, db, { SESSION_SECRET: 'test-secret' });
+
+    expect(response.status).toBe(200);
+    expect(String(db.updatedRow?.[0])).toMatch(/^pbkdf2-sha256\$100000\$/);
+  });
+
+  it('rejects incorrect passwords against a PBKDF2 hash', async () => {
+    const db = new MockD1Database();
+    db.setProfileSelectResult({ password_hash: await pbkdf2Hash('password123') });
+
+    const request = new Request('https://example.com/api/login', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ email: 'user@example.com', password: 'otherpass' }),
+    });
+
+    const response = await send(request, db);
+
+    expect(response.status).toBe(401);
+    expect(db.updatedRow).toBeNull();
   });
 });
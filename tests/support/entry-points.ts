@@ -0,0 +1,28 @@
+import worker, { type Env } from '../../src/index';
+import { onRequest } from '../../functions/[[path]]';
+
+export interface EntryPoint {
+  name: string;
+  fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response>;
+}
+
+/**
+ * The two ways the site is deployed. Tests that run against both make sure
+ * the Pages function keeps serving exactly what the worker serves.
+ */
+export const ENTRY_POINTS: EntryPoint[] = [
+  {
+    name: 'worker',
+    fetch: (request, env, ctx) => worker.fetch(request, env, ctx),
+  },
+  {
+    name: 'pages function',
+    fetch: (request, env, ctx) =>
+      onRequest({
+        request,
+        env,
+        waitUntil: (promise) => ctx.waitUntil(promise),
+        passThroughOnException: () => ctx.passThroughOnException?.(),
+      }),
+  },
+];
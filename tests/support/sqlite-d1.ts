@@ -0,0 +1,69 @@
+import { Database, type SQLQueryBindings } from 'bun:sqlite';
+
+/**
+ * A small D1-compatible wrapper around bun:sqlite so handler tests can run
+ * against a real SQL engine instead of matching query strings.
+ */
+class SqlitePreparedStatement {
+  private bindings: SQLQueryBindings[] = [];
+
+  constructor(private readonly db: Database, private readonly query: string) {}
+
+  bind(...values: unknown[]): SqlitePreparedStatement {
+    this.bindings = values.map((value) => (value === undefined ? null : value)) as SQLQueryBindings[];
+    return this;
+  }
+
+  first<T = unknown>(): Promise<T | null> {
+    const row = this.db.query(this.query).get(...this.bindings);
+    return Promise.resolve((row ?? null) as T | null);
+  }
+
+  run<T = unknown>(): Promise<T> {
+    return Promise.resolve(this.runNow() as T);
+  }
+
+  runNow(): { success: true; meta: { changes: number; last_row_id: number } } {
+    const result = this.db.query(this.query).run(...this.bindings);
+    return {
+      success: true,
+      meta: { changes: result.changes, last_row_id: Number(result.lastInsertRowid) },
+    };
+  }
+
+  all<T = unknown>(): Promise<{ results: T[] }> {
+    const rows = this.db.query(this.query).all(...this.bindings) as T[];
+    return Promise.resolve({ results: rows });
+  }
+}
+
+export class SqliteD1Database {
+  readonly sqlite = new Database(':memory:');
+
+  prepare(query: string): SqlitePreparedStatement {
+    return new SqlitePreparedStatement(this.sqlite, query);
+  }
+
+  /** Like D1, a failing statement rolls back the whole batch. */
+  batch<T = unknown>(statements: SqlitePreparedStatement[]): Promise<T[]> {
+    try {
+      const run = this.sqlite.transaction(() => statements.map((statement) => statement.runNow()));
+      return Promise.resolve(run() as T[]);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /** Runs raw SQL directly, bypassing the worker, to seed or inspect state. */
+  exec(query: string, ...values: SQLQueryBindings[]): void {
+    this.sqlite.query(query).run(...values);
+  }
+
+  row<T = Record<string, unknown>>(query: string, ...values: SQLQueryBindings[]): T | null {
+    return (this.sqlite.query(query).get(...values) ?? null) as T | null;
+  }
+
+  rows<T = Record<string, unknown>>(query: string, ...values: SQLQueryBindings[]): T[] {
+    return this.sqlite.query(query).all(...values) as T[];
+  }
+}
@@ -0,0 +1,100 @@
+import worker, { ensureSchema, type Env } from '../../src/index';
+import { memoryOutbox } from '../../src/mail';
+import { ENTRY_POINTS, type EntryPoint } from './entry-points';
+import { SqliteD1Database } from './sqlite-d1';
+
+const controller: ScheduledController = {
+  scheduledTime: Date.now(),
+  cron: '*/5 * * * *',
+  noRetry() {
+    // no-op for tests
+  },
+};
+
+export interface TestWorker {
+  db: SqliteD1Database;
+  env: Env;
+  ctx: ExecutionContext;
+  /** Sends a request (paths are relative to https://example.com) and waits for its background work. */
+  fetch(input: string | Request, init?: RequestInit): Promise<Response>;
+  /** POSTs `body` as JSON to `path`. */
+  post(path: string, body: unknown, headers?: Record<string, string>): Promise<Response>;
+  /** Runs one cron tick and waits for its background work. */
+  scheduled(): Promise<void>;
+}
+
+/**
+ * A worker wired to a fresh in-memory database whose schema is already
+ * migrated, delivering mail to `memoryOutbox`. `vars` are merged into the
+ * env, so a test can switch the transport or add admin credentials; `entry`
+ * runs the requests through another deployment, such as the Pages function.
+ */
+export async function createTestWorker(vars: Partial<Env> = {}, entry: EntryPoint = ENTRY_POINTS[0]): Promise<TestWorker> {
+  memoryOutbox.length = 0;
+
+  const pending: Promise<unknown>[] = [];
+  const ctx: ExecutionContext = {
+    waitUntil(promise) {
+      pending.push(promise);
+    },
+  };
+  const db = new SqliteD1Database();
+  const env = {
+    DB: db,
+    MAIL_TRANSPORT: 'memory',
+    SESSION_SECRET: 'test-secret',
+    ...vars,
+  } as unknown as Env;
+
+  await ensureSchema(env.DB);
+
+  // Background work can queue more background work, so keep going until
+  // nothing new was added.
+  async function settle(): Promise<void> {
+    while (pending.length > 0) {
+      await Promise.all(pending.splice(0));
+    }
+  }
+
+  async function fetch(input: string | Request, init?: RequestInit): Promise<Response> {
+    const request = typeof input === 'string' ? new Request(new URL(input, 'https://example.com'), init) : input;
+    const response = await entry.fetch(request, env, ctx);
+    await settle();
+    return response;
+  }
+
+  return {
+    db,
+    env,
+    ctx,
+    fetch,
+    post(path, body, headers = {}) {
+      return fetch(path, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+    },
+    async scheduled() {
+      await worker.scheduled(controller, env, ctx);
+      await settle();
+    },
+  };
+}
+
+/** The first link in the latest email, optionally only among those sent to `to`. */
+export function emailedLink(to?: string, pattern = /https:\/\/\S+/): string {
+  const messages = to === undefined ? memoryOutbox : memoryOutbox.filter((message) => message.to === to);
+  return messages.at(-1)?.text.match(pattern)?.[0] ?? '';
+}
+
+/** The `token` query parameter of the link in the latest email. */
+export function emailedToken(to?: string, pattern?: RegExp): string {
+  const link = emailedLink(to, pattern);
+  return link ? new URL(link).searchParams.get('token') ?? '' : '';
+}
+
+/** The `name=value` pair a response sets, ready to send back as a cookie header. */
+export function sessionCookie(response: Response): string {
+  return (response.headers.get('set-cookie') ?? '').split(';')[0];
+}
@@ -0,0 +1,99 @@
+import { memoryOutbox } from '../src/mail';
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createTestWorker, type TestWorker } from './support/worker';
+
+describe('unsubscribe', () => {
+  let app: TestWorker;
+
+  function subscribe(email: string): Promise<Response> {
+    return app.post('/api/subscribe', { email });
+  }
+
+  async function unsubscribeLink(email: string): Promise<string> {
+    await subscribe(email);
+    return (memoryOutbox.at(-1)?.headers['List-Unsubscribe'] ?? '').slice(1, -1);
+  }
+
+  function postForm(url: string, form: Record<string, string>): Promise<Response> {
+    return app.fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(form).toString(),
+    });
+  }
+
+  function status(email: string) {
+    return app.db.row<{ unsubscribed_at: string | null; unsubscribe_reason: string | null }>(
+      'SELECT unsubscribed_at, unsubscribe_reason FROM subscriptions WHERE email = ?',
+      email
+    );
+  }
+
+  beforeEach(async () => {
+    app = await createTestWorker({
+      SITE_BASE_URL: 'https://solarroots.example.com',
+      UNSUBSCRIBE_SECRET: 'unsubscribe-secret',
+    });
+  });
+
+  it('adds RFC 8058 headers to outgoing email', async () => {
+    const link = await unsubscribeLink('user@example.com');
+
+    expect(link).toStartWith('https://solarroots.example.com/unsubscribe?email=user%40example.com&token=');
+    expect(memoryOutbox[0].headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+  });
+
+  it('only asks for confirmation on GET', async () => {
+    const link = await unsubscribeLink('user@example.com');
+    const response = await app.fetch(link);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('name="reason"');
+    expect(status('user@example.com')?.unsubscribed_at).toBeNull();
+  });
+
+  it('handles one-click POSTs from mail providers', async () => {
+    const link = await unsubscribeLink('user@example.com');
+    const response = await postForm(link, { 'List-Unsubscribe': 'One-Click' });
+
+    expect(response.status).toBe(200);
+    const row = status('user@example.com');
+    expect(row?.unsubscribe_reason).toBe('one_click');
+    expect(Number.isNaN(Date.parse(row?.unsubscribed_at ?? ''))).toBe(false);
+  });
+
+  it('records the chosen reason from the form and allows resubscribing', async () => {
+    const link = new URL(await unsubscribeLink('user@example.com'));
+    const token = link.searchParams.get('token') ?? '';
+
+    await postForm('/unsubscribe', { email: 'user@example.com', token, reason: 'too_many' });
+    expect(status('user@example.com')?.unsubscribe_reason).toBe('too_many');
+
+    const blocked = await subscribe('user@example.com');
+    expect(blocked.status).toBe(409);
+    expect(memoryOutbox).toHaveLength(1);
+
+    await postForm('/unsubscribe', { email: 'user@example.com', token, action: 'resubscribe' });
+    expect(status('user@example.com')).toEqual({ unsubscribed_at: null, unsubscribe_reason: null });
+  });
+
+  it('rejects forged tokens', async () => {
+    await subscribe('user@example.com');
+    const response = await postForm('/unsubscribe?email=user@example.com&token=deadbeef', {
+      'List-Unsubscribe': 'One-Click',
+    });
+
+    expect(response.status).toBe(400);
+    expect(status('user@example.com')?.unsubscribed_at).toBeNull();
+  });
+
+  it('does not resend confirmations to suppressed addresses', async () => {
+    const link = await unsubscribeLink('user@example.com');
+    await postForm(link, { 'List-Unsubscribe': 'One-Click' });
+    app.db.exec("UPDATE subscriptions SET token_created_at = '2000-01-01T00:00:00.000Z'");
+
+    await app.post('/api/confirm/resend', { email: 'user@example.com' });
+
+    expect(memoryOutbox).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+import worker, { type Env } from '../src/index';
+import { emailField, enumField, listField, optional, stringField, validateBody } from '../src/validation';
+import { describe, expect, it } from 'bun:test';
+import { SqliteD1Database } from './support/sqlite-d1';
+
+describe('body validation', () => {
+  const schema = {
+    email: emailField(),
+    name: stringField({ label: 'Name', max: 5 }),
+    password: optional(stringField({ label: 'Password', min: 8, trim: false })),
+    role: optional(enumField('Role', ['member', 'admin'])),
+    ids: optional(listField('Ids', stringField({ label: 'Id' }))),
+  };
+
+  it('returns normalised values', () => {
+    const result = validateBody(schema, { email: ' Ada@Example.COM ', name: ' Ada ', role: 'admin', ids: ['a', 'b'] });
+
+    expect(result).toEqual({
+      ok: true,
+      values: { email: 'ada@example.com', name: 'Ada', password: undefined, role: 'admin', ids: ['a', 'b'] },
+    });
+  });
+
+  it('reports every failing field', () => {
+    const result = validateBody(schema, { email: 'nope', name: 'Adelaide', password: 'short', role: 'owner', ids: [] });
+
+    expect(result).toEqual({
+      ok: false,
+      fields: {
+        email: { code: 'invalid_email', message: 'Invalid email address.' },
+        name: { code: 'too_long', message: 'Name must be at most 5 characters long.' },
+        password: { code: 'too_short', message: 'Password must be at least 8 characters long.' },
+        role: { code: 'invalid_choice', message: 'Role must be member or admin.' },
+        ids: { code: 'required', message: 'Ids must be a non-empty list.' },
+      },
+    });
+  });
+
+  it('treats whitespace-only and non-string values as missing or wrong', () => {
+    const result = validateBody(schema, { email: 42, name: '   ', ids: ['ok', 7] });
+
+    expect(result).toEqual({
+      ok: false,
+      fields: {
+        email: { code: 'invalid_email', message: 'Invalid email address.' },
+        name: { code: 'required', message: 'Name is required.' },
+        ids: { code: 'invalid_type', message: 'Id must be text.' },
+      },
+    });
+  });
+});
+
+describe('validation responses', () => {
+  const ctx: ExecutionContext = {
+    waitUntil() {
+      // no-op for tests
+    },
+  };
+
+  it('name each failing field with a stable code', async () => {
+    const response = await worker.fetch(
+      new Request('https://example.com/api/password/reset', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ password: 'x'.repeat(300) }),
+      }),
+      { DB: new SqliteD1Database() } as unknown as Env,
+      ctx
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Reset token is required.',
+      code: 'validation_failed',
+      fields: {
+        token: { code: 'required', message: 'Reset token is required.' },
+        password: { code: 'too_long', message: 'Password must be at most 256 characters long.' },
+      },
+    });
+  });
+});